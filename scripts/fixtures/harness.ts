@@ -0,0 +1,144 @@
+// scripts/fixtures/harness.ts
+// Saved responses for every configured source, replayed offline.
+//
+// scripts/fixtures/<slug>/manifest.json maps each URL the pipeline requested
+// to what came back: a saved body, a bare status (HEAD requests), or a
+// redirect. The fixture tests serve them from a local HTTP server and point
+// the fetch scheduler at it.
+//
+// The pages checked in today are synthetic: hand-written stand-ins modelled on
+// each site's markup, cut down to the parts the selectors read, with made-up
+// competitions. They were never fetched from the live sites. record.ts
+// replaces them with real recordings when it can reach the network; until
+// then a passing snapshot says the parsers agree with these pages, not that a
+// site still looks like this. The mitre10 and tuigarden manifests have no
+// bodies because those URLs are only ever asked for with HEAD, as the end of
+// a cheapies.nz /goto/ redirect.
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export type FixtureEntry = {
+  status: number;
+  file?: string;
+  contentType?: string;
+  location?: string;
+};
+
+export type Manifest = Record<string, FixtureEntry>;
+
+export type Fixture = FixtureEntry & { dir: string };
+
+export const FIXTURES_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const MAX_REDIRECTS = 5;
+
+// "https://www.cheapies.nz/competition/all/feed" → "cheapies-nz"
+export function fixtureSlug(url: string) {
+  return new URL(url).hostname.replace(/^www\./, "").replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+}
+
+// File name for a recorded body, readable enough to find by eye.
+export function fixtureFileName(url: string, contentType = "") {
+  const u = new URL(url);
+  const stem = `${u.pathname}${u.search}`.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").toLowerCase().slice(0, 80);
+  return `${stem || "index"}${/xml|rss|atom/i.test(contentType) ? ".xml" : ".html"}`;
+}
+
+export async function readManifest(dir: string): Promise<Manifest> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "manifest.json"), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+// Every recorded URL across all sources.
+export async function loadFixtures(root = FIXTURES_DIR) {
+  const fixtures = new Map<string, Fixture>();
+  for (const entry of await fs.readdir(root, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(root, entry.name);
+    for (const [url, fixture] of Object.entries(await readManifest(dir))) {
+      fixtures.set(url, { ...fixture, dir });
+    }
+  }
+  return fixtures;
+}
+
+// The stand-in serves "https://host/path?q" at "/https/host/path?q".
+function toLocal(origin: string, url: string) {
+  const u = new URL(url);
+  return `${origin}/${u.protocol.replace(":", "")}/${u.host}${u.pathname}${u.search}`;
+}
+
+function fromLocal(reqUrl: string) {
+  const m = reqUrl.match(/^\/(https?)\/([^/?]+)(.*)$/);
+  if (!m) return null;
+  return `${m[1]}://${m[2]}${m[3].startsWith("/") ? m[3] : `/${m[3]}`}`;
+}
+
+export function startFixtureServer(fixtures: Map<string, Fixture>) {
+  const requests: string[] = [];
+  const server = http.createServer(async (req, res) => {
+    const url = fromLocal(req.url || "");
+    if (url) requests.push(`${req.method} ${url}`);
+    const fixture = url ? fixtures.get(url) : undefined;
+    if (!fixture) {
+      res.writeHead(404, { "content-type": "text/plain" });
+      res.end(`no fixture recorded for ${url}`);
+      return;
+    }
+    const headers: Record<string, string> = {};
+    if (fixture.contentType) headers["content-type"] = fixture.contentType;
+    if (fixture.location) headers.location = fixture.location;
+    const body = fixture.file && req.method !== "HEAD" ? await fs.readFile(path.join(fixture.dir, fixture.file)) : null;
+    res.writeHead(fixture.status, headers);
+    res.end(body);
+  });
+  return new Promise<{ origin: string; requests: string[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        origin: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>((r) => server.close(() => r())),
+      });
+    });
+  });
+}
+
+// Follows redirects by hand so every hop goes back through `fetchOne` (and
+// gets recorded or replayed) instead of leaving for the real host.
+export async function followRedirects(
+  fetchOne: (url: string, init: RequestInit) => Promise<Response>,
+  url: string,
+  init: RequestInit = {}
+) {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const res = await fetchOne(current, { ...init, redirect: "manual" });
+    const location = res.headers.get("location");
+    if (init.redirect === "manual" || res.status < 300 || res.status >= 400 || !location || hop >= MAX_REDIRECTS) {
+      Object.defineProperty(res, "url", { value: current });
+      return res;
+    }
+    await res.arrayBuffer();
+    current = new URL(location, current).toString();
+  }
+}
+
+// fetch() stand-in for the scheduler: same URLs in, answers from the server.
+export function replayFetch(origin: string): typeof fetch {
+  const fetchOne = async (url: string, init: RequestInit) => {
+    const res = await fetch(toLocal(origin, url), init);
+    return new Response(res.status === 304 || init.method === "HEAD" ? null : await res.arrayBuffer(), {
+      status: res.status,
+      headers: res.headers,
+    });
+  };
+  return ((input: string | URL | Request, init?: RequestInit) =>
+    followRedirects(fetchOne, String(input), init)) as typeof fetch;
+}
@@ -0,0 +1,65 @@
+// scripts/fixtures/record.ts
+// Re-records the offline fixtures from the live sites: runs each configured
+// source through the real parsers with a fetch that saves every response.
+//
+// Usage: npm run fixtures:record -- [--only <host>]
+// Review the diff (and `npm run test:scripts -- -u` for the snapshots) before
+// committing; a redesigned site shows up as changed snapshots.
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Competition, SourcesConfig } from "../ingest/types";
+import { ROOT, UA } from "../ingest/config";
+import { crawlSite } from "../ingest/crawl";
+import { configureScheduler } from "../ingest/fetch";
+import { resolveEntryUrls } from "../ingest/links";
+import { parseRSSFeed } from "../ingest/rss";
+import { FIXTURES_DIR, fixtureFileName, fixtureSlug, followRedirects, readManifest, type Manifest } from "./harness";
+
+const manifests = new Map<string, Manifest>();
+
+async function record(url: string, init: RequestInit) {
+  const res = await fetch(url, { ...init, headers: { "user-agent": UA, ...(init.headers as Record<string, string>) } });
+  const slug = fixtureSlug(url);
+  const dir = path.join(FIXTURES_DIR, slug);
+  if (!manifests.has(slug)) manifests.set(slug, await readManifest(dir));
+  const manifest = manifests.get(slug)!;
+
+  const body = init.method === "HEAD" ? null : Buffer.from(await res.arrayBuffer());
+  const contentType = res.headers.get("content-type") || undefined;
+  const entry: Manifest[string] = { status: res.status, contentType, location: res.headers.get("location") || undefined };
+  if (body?.length) {
+    entry.file = fixtureFileName(url, contentType);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, entry.file), body);
+  }
+  manifest[url] = entry;
+  console.log(`[record] ${res.status} ${url}`);
+  return new Response(body, { status: res.status, headers: res.headers });
+}
+
+async function main() {
+  const sources: SourcesConfig = JSON.parse(await fs.readFile(path.resolve(ROOT, "sources.json"), "utf8"));
+  const argv = process.argv.slice(2);
+  const i = argv.indexOf("--only");
+  const only = i !== -1 ? argv[i + 1] : null;
+  const wanted = (url: string) => !only || new URL(url).hostname.replace(/^www\./, "") === only.replace(/^www\./, "");
+
+  // Fixtures are replayed without robots.txt, so don't record it either.
+  configureScheduler({ robots: false, fetchImpl: ((input, init) => followRedirects(record, String(input), init)) as typeof fetch });
+
+  const items: Competition[] = [];
+  for (const url of (sources.rss || []).filter(wanted)) items.push(...(await parseRSSFeed(url)));
+  for (const site of (sources.sites || []).filter((s) => wanted(s.index))) items.push(...(await crawlSite(site)).items);
+  await resolveEntryUrls(items);
+
+  for (const [slug, manifest] of manifests) {
+    const sorted = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b)));
+    await fs.writeFile(path.join(FIXTURES_DIR, slug, "manifest.json"), JSON.stringify(sorted, null, 2) + "\n", "utf8");
+    console.log(`[record] ${slug}: ${Object.keys(sorted).length} response(s)`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
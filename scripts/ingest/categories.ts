@@ -0,0 +1,40 @@
+// scripts/ingest/categories.ts
+import { extractPrize } from "./prize";
+import type { Competition } from "./types";
+
+// sources.json "categories" maps a tag to keywords. Each keyword is a regex
+// fragment matched case-insensitively as a whole word against the title,
+// description and prize label, e.g. { "travel": ["holiday", "flights?"] }.
+export type CompiledCategory = { tag: string; re: RegExp };
+
+export function compileCategories(categories: Record<string, string[]> | undefined): CompiledCategory[] {
+  const out: CompiledCategory[] = [];
+  for (const [tag, keywords] of Object.entries(categories || {})) {
+    if (!Array.isArray(keywords) || !keywords.length) continue;
+    try {
+      out.push({ tag, re: new RegExp(`(?<!\\w)(?:${keywords.join("|")})(?!\\w)`, "i") });
+    } catch (e) {
+      console.log(`[categories] skipping "${tag}": ${(e && e.message) || e}`);
+    }
+  }
+  return out;
+}
+
+export function classify(item: Pick<Competition, "title" | "description" | "prize">, compiled: CompiledCategory[]) {
+  const text = [item.title, item.description, item.prize].filter(Boolean).join(" ");
+  return compiled.filter(({ re }) => re.test(text)).map(({ tag }) => tag);
+}
+
+// Fills prize/prizeValue when the item doesn't have them yet and recomputes
+// category tags. Runs over the accumulated feed too, so older items pick up
+// new extraction rules and keyword lists.
+export function enrichItem(item: Competition, categories: CompiledCategory[]): Competition {
+  let next = item;
+  if (next.prizeValue == null) {
+    const found = extractPrize(next.prize) || extractPrize(next.title) || extractPrize(next.description);
+    if (found) next = { ...next, prize: next.prize || found.label, prizeValue: found.amount };
+  }
+  const categoryTags = new Set(categories.map((c) => c.tag));
+  const kept = (Array.isArray(next.tags) ? next.tags : []).filter((t) => !categoryTags.has(t));
+  return { ...next, tags: Array.from(new Set([...kept, ...classify(next, categories)])) };
+}
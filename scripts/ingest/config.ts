@@ -0,0 +1,55 @@
+// scripts/ingest/config.ts
+// Tunables and command-line/environment options for a pull run.
+import path from "node:path";
+
+export const ROOT = process.cwd();
+
+export const UA =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36";
+
+export const SETTINGS = {
+  MAX_ITEM_AGE_DAYS: 400,
+  DROP_PAST_DEADLINES: true,
+  EXPIRED_MAX_AGE_DAYS: 365,
+  FUTURE_CREATEDAT_SKEW_MIN: 10,
+  USER_SITE_INDEX_LIMIT: 12,
+  USER_SITE_THROTTLE_MS: 200,
+  ENTRY_RESOLVE_LIMIT: 40,
+  ENTRY_RESOLVE_MAX_AGE_DAYS: 14,
+  DETAIL_REVALIDATE_HOURS: 72,
+  HTTP_CACHE_MAX_AGE_DAYS: 30,
+  FETCH_CONCURRENCY: 6,
+  FETCH_PER_HOST: 2,
+  FETCH_HOST_DELAY_MS: 250,
+  FETCH_TIMEOUT_MS: 20_000,
+  FETCH_RETRIES: 3,
+  HEALTH_HISTORY_RUNS: 20,
+  SILENT_AFTER_RUNS: 3,
+};
+
+export function userSourcesPathFromArgs(argv: string[]) {
+  const i = argv.indexOf("--user-sources");
+  if (i !== -1 && argv[i + 1]) return { file: path.resolve(ROOT, argv[i + 1]), explicit: true };
+  if (process.env.PARLAY_USER_SOURCES) {
+    return { file: path.resolve(ROOT, process.env.PARLAY_USER_SOURCES), explicit: true };
+  }
+  return { file: path.resolve(ROOT, "user-sources.json"), explicit: false };
+}
+
+// --ics [file] or $PARLAY_ICS writes a subscribable calendar of feed
+// deadlines; off unless asked for.
+export function icsPathFromArgs(argv: string[]): string | null {
+  const i = argv.indexOf("--ics");
+  if (i !== -1) {
+    const next = argv[i + 1];
+    return path.resolve(ROOT, next && !next.startsWith("--") ? next : "public/deadlines.ics");
+  }
+  return process.env.PARLAY_ICS ? path.resolve(ROOT, process.env.PARLAY_ICS) : null;
+}
+
+export function httpCachePathFromArgs(argv: string[]): string | null {
+  if (argv.includes("--no-http-cache")) return null;
+  const i = argv.indexOf("--http-cache");
+  if (i !== -1 && argv[i + 1]) return path.resolve(ROOT, argv[i + 1]);
+  return path.resolve(ROOT, process.env.PARLAY_HTTP_CACHE || ".cache/http-cache.json");
+}
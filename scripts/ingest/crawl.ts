@@ -0,0 +1,186 @@
+// scripts/ingest/crawl.ts
+// Site crawling: index pages → detail links → one competition per page.
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { CrawlError, CrawlResult, Competition, SiteConfig } from "./types";
+import { SETTINGS } from "./config";
+import { extractDeadlineFromTitle, extractDeadlineText, extractPublished } from "./dates";
+import { fetchText, httpCache, isFresh, lastStatus, scheduler } from "./fetch";
+import { aggregatorFor, extractOutboundLink, resolveEntryLink } from "./links";
+import { toCompetition } from "./normalize";
+import { parseNzDate } from "./nzdate";
+import { extractPrize } from "./prize";
+import { extractRequirements } from "./requirements";
+import { selectValue } from "./selectors";
+import { cleanUrl, sourceFromLink, toAbsolute } from "./urls";
+import { collapse } from "./util";
+
+// The host whose links are followed ("" = any), without www.
+export function siteHost(site: SiteConfig) {
+  return (site.host || site.site || "").replace(/^https?:\/\//, "").replace(/^www\./, "");
+}
+
+// Detail-page links on one index page: the configured selector, or same-site
+// links that look like competitions when it matches nothing.
+export function indexLinks($: CheerioAPI, pageUrl: string, site: SiteConfig) {
+  const baseHost = siteHost(site);
+  const selector = site.href_selector || site.item_selector;
+  let $as = selector ? $(selector) : $("a[href]");
+  const fallback = $as.length === 0;
+  if (fallback) {
+    $as = $("a[href]").filter((_, a) => {
+      const href = $(a).attr("href") || "";
+      if (!href.startsWith("/")) return false;
+      return /win|prize|competitions?|giveaway|contest/i.test(href);
+    });
+  }
+
+  const links: string[] = [];
+  $as.each((_, a) => {
+    const abs = toAbsolute(pageUrl, $(a).attr("href"));
+    if (!abs) return;
+    try {
+      const u = new URL(abs);
+      const hostNoW = u.hostname.replace(/^www\./, "");
+      if (baseHost && hostNoW !== baseHost) return;
+      links.push(cleanUrl(u.href));
+    } catch {
+      // ignore
+    }
+  });
+  return { matched: $as.length, fallback, links };
+}
+
+// `known` holds the cleaned links already in feeds.json; a detail page parsed
+// on a recent run is only skipped when its item is among them.
+export async function crawlSite(site: SiteConfig, known: Set<string> = new Set()): Promise<CrawlResult> {
+  const baseHost = siteHost(site);
+  const indexUrl = site.index;
+  const throttle = Number(site.throttle_ms || 0);
+  const hostLabel = baseHost || (indexUrl ? new URL(indexUrl).hostname.replace(/^www\./, "") : "site");
+
+  console.log(`[${hostLabel}] crawl start: ${indexUrl}`);
+  if (throttle > 0 && indexUrl) scheduler.setHostDelay(indexUrl, throttle);
+
+  const maxPages = Math.max(1, Number(site.max_pages || 1));
+  const pageParam = site.page_param || site.pageParam || site.pagination_param || "pg";
+
+  const indexPages: string[] = [];
+  for (let p = 1; p <= maxPages; p++) {
+    if (p === 1) {
+      indexPages.push(indexUrl);
+    } else {
+      const u = new URL(indexUrl);
+      u.searchParams.set(pageParam, String(p));
+      indexPages.push(u.toString());
+    }
+  }
+
+  const seenIndexHrefs = new Set<string>();
+  const errors: CrawlError[] = [];
+
+  for (let i = 0; i < indexPages.length; i++) {
+    const pageUrl = indexPages[i];
+    let html: string;
+    try {
+      html = await fetchText(pageUrl);
+    } catch (e) {
+      console.log(`[${hostLabel}] index fetch failed (${pageUrl}): ${e && e.message}`);
+      errors.push({ url: pageUrl, message: (e && e.message) || String(e), status: e?.status });
+      continue;
+    }
+
+    let found = 0;
+    for (const key of indexLinks(cheerio.load(html), pageUrl, site).links) {
+      if (!seenIndexHrefs.has(key)) {
+        seenIndexHrefs.add(key);
+        found++;
+      }
+    }
+
+    console.log(`[${hostLabel}] index page ${i + 1}/${indexPages.length} -> ${found} new link(s)`);
+  }
+
+  let hrefs = Array.from(seenIndexHrefs);
+  const cap = Number(site.index_limit || site.max_items);
+  if (Number.isFinite(cap) && cap > 0) hrefs = hrefs.slice(0, cap);
+
+  console.log(`[${hostLabel}] total indexed -> ${hrefs.length} link(s)${cap ? " (limited)" : ""}`);
+
+  // Detail pages go out concurrently; the scheduler keeps it polite per host.
+  let skipped = 0;
+  const parsed = await Promise.all(
+    hrefs.map(async (href): Promise<Competition | null> => {
+      // Parsed on a recent run and its item is still in feeds.json.
+      if (known.has(href) && isFresh(href, SETTINGS.DETAIL_REVALIDATE_HOURS)) {
+        skipped++;
+        return null;
+      }
+      try {
+        const pageHtml = await fetchText(href, { keepBody: false });
+        if (pageHtml === null) {
+          skipped++;
+          return null;
+        }
+        const $$ = cheerio.load(pageHtml);
+
+        let title =
+          selectValue($$, site.title_selector) ||
+          collapse($$("h1").first().text()) ||
+          collapse($$("meta[property='og:title']").attr("content") || "");
+        if (!title) title = href;
+
+        // Selector values are free text ("Closes 7th March 2026") or machine dates.
+        const createdAt =
+          parseNzDate(selectValue($$, site.published_selector), { role: "published" })?.iso || extractPublished($$);
+
+        // Configured selector first, then page body, then title extraction
+        const deadline =
+          parseNzDate(selectValue($$, site.deadline_selector), { reference: createdAt }) ||
+          extractDeadlineText($$, site, createdAt) ||
+          extractDeadlineFromTitle(title, createdAt);
+
+        const description = selectValue($$, site.description_selector);
+        // Selector text, then the title, then worth/valued/RRP wording in the body.
+        const bodyText = collapse($$("main").text() || $$("article").text() || $$("body").text() || "");
+        const prizeText = selectValue($$, site.prize_selector);
+        const found =
+          extractPrize(prizeText) ||
+          extractPrize(title) ||
+          extractPrize(description) ||
+          extractPrize((bodyText.match(/\b(?:worth|valued|RRP|total value)[^.]{0,60}/i) || [""])[0]);
+        const prize = prizeText || found?.label;
+        const prizeValue = found?.amount;
+        const requirements = extractRequirements(bodyText);
+        const outboundUrl = extractOutboundLink($$, href, baseHost);
+        const agg = aggregatorFor(href);
+        const entryUrl = await resolveEntryLink($$, href, baseHost, agg?.selector).catch(() => null);
+
+        const looksLikeListing =
+          /competitions?|giveaways?/i.test(title) && !deadline && title.length <= 40;
+        if (looksLikeListing) return null;
+
+        const src = site.source || baseHost || sourceFromLink(href);
+        console.log(`[${hostLabel}] parsed: ${title}`);
+        return toCompetition({ title, link: href, source: src, origin: site.origin, createdAt, deadline, prize, prizeValue, description, requirements, entryUrl, outboundUrl });
+      } catch (e) {
+        console.log(`[${hostLabel}] parse fail ${href} -> ${(e && e.message) || e}`);
+        errors.push({ url: href, message: (e && e.message) || String(e), status: e?.status });
+        return null;
+      }
+    })
+  );
+  const items = parsed.filter((it): it is Competition => it !== null);
+
+  httpCache.stats.skipped += skipped;
+  console.log(`[${hostLabel}] done: ${items.length} item(s), ${skipped} unchanged`);
+  return {
+    label: hostLabel,
+    indexed: hrefs.length,
+    pages: indexPages.length,
+    skipped,
+    items,
+    errors,
+    httpStatus: lastStatus.get(indexUrl) ?? null,
+  };
+}
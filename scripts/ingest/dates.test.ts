@@ -0,0 +1,121 @@
+// scripts/ingest/dates.test.ts
+import * as cheerio from "cheerio";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { extractDeadlineFromTitle, extractDeadlineText, extractPublished } from "./dates";
+
+process.env.TZ = "UTC";
+
+// Dates without a time run to 11:59pm in Auckland (NZDT until early April).
+describe("extractDeadlineFromTitle", () => {
+  it.each([
+    ["Win a TV closes 7th March 2026", "2026-03-07T10:59:00.000Z", 0.9],
+    ["Win a BBQ - drawn 26th February 2026", "2026-02-26T10:59:00.000Z", 0.9],
+    ["Prezzy card giveaway ends March 3rd 2026", "2026-03-03T10:59:00.000Z", 0.9],
+    ["Win a trip to Fiji 3rd March 2026", "2026-03-03T10:59:00.000Z", 0.8],
+    ["Win a car, closing on 4 Apr 2026", "2026-04-04T10:59:00.000Z", 0.9],
+    ["Win a hamper - ends 31/03/26", "2026-03-31T10:59:00.000Z", 0.85],
+  ])("%s", (title, iso, confidence) => {
+    expect(extractDeadlineFromTitle(title)).toEqual({ iso, confidence });
+  });
+
+  it("takes a missing year from the publish date", () => {
+    const published = "2026-08-22T01:05:44.000Z";
+    expect(extractDeadlineFromTitle("Win a family pass drawn 28th August", published)).toEqual({
+      iso: "2026-08-28T11:59:00.000Z",
+      confidence: 0.75,
+    });
+    expect(extractDeadlineFromTitle("Win a summer hamper, closes 10 January", "2026-12-15T00:00:00.000Z")?.iso).toBe(
+      "2027-01-10T10:59:00.000Z"
+    );
+  });
+
+  it("reads relative deadlines from the publish date", () => {
+    // Saturday 22 August in Auckland
+    const published = "2026-08-22T01:05:44.000Z";
+    expect(extractDeadlineFromTitle("Win a BBQ (ends midnight Sunday)", published)?.iso).toBe("2026-08-23T11:59:00.000Z");
+    expect(extractDeadlineFromTitle("Win a bike - closes in 5 days", published)?.iso).toBe("2026-08-27T11:59:00.000Z");
+  });
+
+  it("returns null when there is no date", () => {
+    expect(extractDeadlineFromTitle("Mighty Ape pet insurance")).toBeNull();
+    expect(extractDeadlineFromTitle("")).toBeNull();
+    expect(extractDeadlineFromTitle(undefined)).toBeNull();
+  });
+});
+
+describe("extractDeadlineText", () => {
+  const load = (body: string) => cheerio.load(`<html><body><main>${body}</main></body></html>`);
+
+  const iso = (d: ReturnType<typeof extractDeadlineText>) => d?.iso;
+
+  it("finds the generic closing phrases", () => {
+    expect(iso(extractDeadlineText(load("<p>Entries close 30 September 2026 at 5pm.</p>")))).toBe("2026-09-30T04:00:00.000Z");
+    expect(iso(extractDeadlineText(load("<p>Closes: 15 September 2026</p>")))).toBe("2026-09-15T11:59:00.000Z");
+    expect(iso(extractDeadlineText(load("<p>Ends on September 20, 2026</p>")))).toBe("2026-09-20T11:59:00.000Z");
+    expect(iso(extractDeadlineText(load("<p>Closing 2026-10-01</p>")))).toBe("2026-10-01T10:59:00.000Z");
+  });
+
+  it("reads times, zones and day-first numeric dates", () => {
+    expect(extractDeadlineText(load("<p>Competition closes 11:59pm NZST 31/07/26.</p>"))).toEqual({
+      iso: "2026-07-31T11:59:00.000Z",
+      confidence: 0.9,
+    });
+    expect(iso(extractDeadlineText(load("<p>Entries close 5/4/2026.</p>")))).toBe("2026-04-05T11:59:00.000Z");
+  });
+
+  it("skips closing phrases without a date", () => {
+    const $ = load("<p>Closing soon. Entries close 1 September 2026.</p>");
+    expect(iso(extractDeadlineText($))).toBe("2026-09-01T11:59:00.000Z");
+  });
+
+  it("prefers the site's deadline_text_regex", () => {
+    const $ = load("<p>Closes 1 September 2026</p><p>Draw date: 8 September 2026</p>");
+    expect(iso(extractDeadlineText($, { deadline_text_regex: "Draw date:\\s+(\\d{1,2} [A-Za-z]+ \\d{4})" }))).toBe(
+      "2026-09-08T11:59:00.000Z"
+    );
+  });
+
+  it("falls back to the generic pattern when the site regex is invalid", () => {
+    expect(iso(extractDeadlineText(load("<p>Closes 1 September 2026</p>"), { deadline_text_regex: "([" }))).toBe(
+      "2026-09-01T11:59:00.000Z"
+    );
+  });
+
+  it("returns null without a closing phrase", () => {
+    expect(extractDeadlineText(load("<p>Published 1 September 2026</p>"))).toBeNull();
+  });
+});
+
+describe("extractPublished", () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-08-23T00:00:00Z") });
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it("reads article:published_time", () => {
+    const $ = cheerio.load(`<head><meta property="article:published_time" content="2026-08-21T09:30:00+12:00"></head>`);
+    expect(extractPublished($)).toBe("2026-08-20T21:30:00.000Z");
+  });
+
+  it("reads <time datetime>", () => {
+    const $ = cheerio.load(`<main><time datetime="2026-08-18T02:00:00Z">18 Aug</time></main>`);
+    expect(extractPublished($)).toBe("2026-08-18T02:00:00.000Z");
+  });
+
+  it("reads a written date in the body as a past day", () => {
+    const $ = cheerio.load(`<main><p>Posted 30 August by Jo</p></main>`);
+    expect(extractPublished($)).toBe("2025-08-29T12:00:00.000Z");
+  });
+
+  it("doesn't mistake counts for dates", () => {
+    const $ = cheerio.load(`<main><p>Win 1 of 3 copies, for kids aged 6 and up.</p></main>`);
+    expect(extractPublished($)).toBe("2026-08-23T00:00:00.000Z");
+  });
+
+  it("falls back to now when the page has no date", () => {
+    const $ = cheerio.load(`<main><p>No dates here.</p></main>`);
+    expect(extractPublished($)).toBe("2026-08-23T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,90 @@
+// scripts/ingest/dates.ts
+// Deadline and publish-date extraction from titles, page text and metadata.
+// This finds the phrase; nzdate.ts reads it as an Auckland date with a
+// confidence.
+import type { CheerioAPI } from "cheerio";
+import type { SiteConfig } from "./types";
+import { parseNzDate, type ParsedDate } from "./nzdate";
+
+// ===== Deadline extraction from title text =====
+// Handles patterns like:
+//   "closes 7th March", "closes 4th March 2026", "drawn 26th February 2026",
+//   "ends 31/03/26", "closes midnight Sunday", "ends in 5 days",
+//   "closes 11:59pm NZST 7 March"
+// The phrase after the keyword runs to the next bracket or sentence mark; it's
+// a lookahead so a phrase without a date doesn't swallow the next keyword.
+const TITLE_DEADLINE_RE = /\b(?:entries\s+close|clos(?:es?|ing)|drawn?|ends?|due)\b(?=[\s:-]+(?:on\s+|at\s+|by\s+)?([^|()[\]!?]{1,50}))/gi;
+
+// Bare date with a year anywhere in the title: "Win a trip to Fiji 3rd March 2026"
+const MONTH = "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+const BARE_DATE_RE = new RegExp(`(\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}\\s+\\d{4}|${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4})`, "i");
+
+// Without a closing keyword the date could be anything (an event, a launch).
+const BARE_DATE_PENALTY = 0.1;
+
+export function extractDeadlineFromTitle(title: string | null | undefined, publishedAt?: string | null): ParsedDate | null {
+  if (!title) return null;
+
+  // Explicit close/drawn keyword first
+  for (const m of title.matchAll(TITLE_DEADLINE_RE)) {
+    const parsed = parseNzDate(m[1], { reference: publishedAt });
+    if (parsed) return parsed;
+  }
+
+  // Fall back to bare date with year (less likely to be noisy)
+  const m = title.match(BARE_DATE_RE);
+  const parsed = m && parseNzDate(m[1], { reference: publishedAt });
+  return parsed ? { ...parsed, confidence: Math.round((parsed.confidence - BARE_DATE_PENALTY) * 100) / 100 } : null;
+}
+
+// ===== Page dates =====
+// A written date in the page body must name its month; "Win 1" and "aged 6"
+// are not dates.
+const PAGE_DATE_RE = new RegExp(`\\b(?:\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}(?:\\s+\\d{4})?|${MONTH}\\s+\\d{1,2}(?:,\\s*\\d{4})?)\\b`, "i");
+
+export function extractPublished($: CheerioAPI) {
+  const candidates = [
+    "meta[property='article:published_time']",
+    "meta[name='article:published_time']",
+    "meta[property='og:updated_time']",
+    "meta[name='date']",
+    "time[datetime]",
+  ];
+  for (const sel of candidates) {
+    const el = $(sel).first();
+    if (!el.length) continue;
+    const parsed = parseNzDate(el.attr("content") || el.attr("datetime"), { role: "published" });
+    if (parsed) return parsed.iso;
+  }
+  const bodyText = $("main").text() || $("article").text() || $("body").text() || "";
+  const m = bodyText.match(PAGE_DATE_RE);
+  const parsed = m && parseNzDate(m[0], { role: "published" });
+  return parsed ? parsed.iso : new Date().toISOString();
+}
+
+const GENERIC_DEADLINE_RE = /\b(?:Entries?\s+close|Closes?|Closing(?:\s+date)?|Ends?)\b(?=(?:\s*[:-]|\s+on|\s+at)?\s+([^\n]{1,60}))/gi;
+
+export function extractDeadlineText(
+  $: CheerioAPI,
+  site?: Pick<SiteConfig, "deadline_text_regex"> | null,
+  publishedAt?: string | null
+): ParsedDate | null {
+  const sourceText = $("main").text() || $("article").text() || $("body").text() || "";
+  const read = (phrase: string) => parseNzDate(phrase.split(/[.!?](?:\s|$)/)[0], { reference: publishedAt });
+
+  if (site?.deadline_text_regex) {
+    let m: RegExpMatchArray | null = null;
+    try {
+      m = sourceText.match(new RegExp(site.deadline_text_regex, "i"));
+    } catch {
+      // invalid in config; the generic phrases still apply
+    }
+    const parsed = m && read(m[1] ?? m[0]);
+    if (parsed) return parsed;
+  }
+  for (const m of sourceText.matchAll(GENERIC_DEADLINE_RE)) {
+    const parsed = read(m[1]);
+    if (parsed) return parsed;
+  }
+  return null;
+}
@@ -0,0 +1,92 @@
+// scripts/ingest/dedupe.test.ts
+import { describe, expect, it } from "vitest";
+import type { Competition } from "./types";
+import { dedupe } from "./dedupe";
+
+function item(fields: Partial<Competition> & Pick<Competition, "title" | "link" | "source">): Competition {
+  return { id: fields.link, origin: "repo", createdAt: "2026-08-20T00:00:00.000Z", tags: [], ...fields };
+}
+
+describe("dedupe", () => {
+  it("merges items with the same link, keeping the more complete one", () => {
+    const out = dedupe([
+      item({ title: "Win a TV", link: "https://contest.co.nz/Thread-Win-a-TV?utm_source=rss", source: "contest.co.nz" }),
+      item({
+        title: "Win a TV",
+        link: "https://contest.co.nz/Thread-Win-a-TV",
+        source: "contest.co.nz",
+        deadline: "2026-09-01T00:00:00.000Z",
+        tags: ["tech"],
+      }),
+    ]);
+    expect(out).toHaveLength(1);
+    expect(out[0].link).toBe("https://contest.co.nz/Thread-Win-a-TV");
+    expect(out[0].deadline).toBe("2026-09-01T00:00:00.000Z");
+    expect(out[0].alsoSeenOn).toBeUndefined();
+  });
+
+  it("clusters cross-posts that point at the same promoter page", () => {
+    const out = dedupe([
+      item({
+        title: "Win a Weber Q2200 BBQ closes 31st August 2026",
+        link: "https://contest.co.nz/Thread-Weber",
+        source: "contest.co.nz",
+        deadline: "2026-08-31T00:00:00.000Z",
+        entryUrl: "https://www.mitre10.co.nz/win/weber-q",
+      }),
+      item({
+        title: "Win a Weber Q2200 BBQ from Mitre 10",
+        link: "https://www.cheapies.nz/node/56860",
+        source: "cheapies.nz",
+        prizeValue: 749,
+        entryUrl: "https://www.mitre10.co.nz/win/weber-q",
+      }),
+    ]);
+    expect(out).toHaveLength(1);
+    expect(out[0].link).toBe("https://contest.co.nz/Thread-Weber");
+    expect(out[0].prizeValue).toBe(749);
+    expect(out[0].alsoSeenOn).toEqual([{ source: "cheapies.nz", link: "https://www.cheapies.nz/node/56860" }]);
+    expect(out[0].mergedIds).toEqual(["https://www.cheapies.nz/node/56860"]);
+  });
+
+  it("clusters near-identical titles from different sources", () => {
+    const out = dedupe([
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://a.co.nz/1", source: "a.co.nz" }),
+      item({ title: "Win a Queenstown ski holiday for four!", link: "https://b.co.nz/2", source: "b.co.nz" }),
+    ]);
+    expect(out).toHaveLength(1);
+  });
+
+  it("keeps items apart when deadlines disagree", () => {
+    const out = dedupe([
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://a.co.nz/1", source: "a.co.nz", deadline: "2026-09-01T00:00:00.000Z" }),
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://b.co.nz/2", source: "b.co.nz", deadline: "2026-10-01T00:00:00.000Z" }),
+    ]);
+    expect(out).toHaveLength(2);
+  });
+
+  it("does not bridge disagreeing deadlines through an undated item", () => {
+    const out = dedupe([
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://a.co.nz/1", source: "a.co.nz", deadline: "2026-08-31T11:59:00.000Z" }),
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://b.co.nz/2", source: "b.co.nz" }),
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://c.co.nz/3", source: "c.co.nz", deadline: "2026-09-30T11:59:00.000Z" }),
+    ]);
+    expect(out.map((c) => c.deadline).sort()).toEqual(["2026-08-31T11:59:00.000Z", "2026-09-30T11:59:00.000Z"]);
+  });
+
+  it("does not match on short generic titles alone", () => {
+    const out = dedupe([
+      item({ title: "Win a $100 Prezzy Card", link: "https://a.co.nz/1", source: "a.co.nz" }),
+      item({ title: "Win a $100 Prezzy Card", link: "https://b.co.nz/2", source: "b.co.nz" }),
+    ]);
+    expect(out).toHaveLength(2);
+  });
+
+  it("never clusters two items from the same source", () => {
+    const out = dedupe([
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://a.co.nz/1", source: "a.co.nz" }),
+      item({ title: "Win a Queenstown ski holiday for four", link: "https://a.co.nz/2", source: "a.co.nz" }),
+    ]);
+    expect(out).toHaveLength(2);
+  });
+});
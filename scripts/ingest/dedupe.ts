@@ -0,0 +1,159 @@
+// scripts/ingest/dedupe.ts
+// The same giveaway is often posted by several aggregators under slightly
+// different titles. Items from different sources are clustered when they
+// point at the same promoter page, or their titles are near-identical, or
+// their titles are similar and the deadline or prize value agrees. A
+// disagreeing deadline or prize value always keeps items apart, across the
+// whole cluster and not just the pair that matched.
+import type { Competition, SeenOn } from "./types";
+import { cleanUrl } from "./urls";
+
+const TITLE_STOPWORDS = new Set([
+  "win", "won", "a", "an", "the", "to", "of", "and", "for", "with", "your", "you", "chance",
+  "in", "on", "from", "our", "giveaway", "competition", "comp", "prize", "enter", "be",
+]);
+const DEADLINE_SLACK_MS = 36 * 60 * 60 * 1000; // date-only deadlines parse in different zones
+const TITLE_SAME = 0.8;
+const TITLE_SIMILAR = 0.5;
+const TITLE_MIN_TOKENS = 4; // "Win a $100 Prezzy Card" alone is too generic to match on
+
+type Node = { item: Competition; tokens: Set<string>; target: string };
+
+export function titleTokens(title: string | null | undefined) {
+  const words = (title || "").toLowerCase().replace(/[$,']/g, "").replace(/&/g, " and ").split(/[^a-z0-9]+/);
+  return new Set(words.filter((w) => w && !TITLE_STOPWORDS.has(w)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// False when the two can't be the same giveaway: same source, or a deadline
+// or prize value that disagrees.
+function canShareCluster(a: Competition, b: Competition) {
+  if ((a.source || "").toLowerCase() === (b.source || "").toLowerCase()) return false;
+  const da = Date.parse(a.deadline || "");
+  const db = Date.parse(b.deadline || "");
+  if (Number.isFinite(da) && Number.isFinite(db) && Math.abs(da - db) > DEADLINE_SLACK_MS) return false;
+  const pa = a.prizeValue;
+  const pb = b.prizeValue;
+  return !(Number.isFinite(pa) && Number.isFinite(pb) && pa !== pb);
+}
+
+function isNearDuplicate(a: Node, b: Node) {
+  if (!canShareCluster(a.item, b.item)) return false;
+  const bothDeadlines = Number.isFinite(Date.parse(a.item.deadline || "")) && Number.isFinite(Date.parse(b.item.deadline || ""));
+  const bothPrizes = Number.isFinite(a.item.prizeValue) && Number.isFinite(b.item.prizeValue);
+
+  const sim = jaccard(a.tokens, b.tokens);
+  if (a.target && a.target === b.target) return sim >= 0.3;
+  if (sim >= TITLE_SAME && Math.min(a.tokens.size, b.tokens.size) >= TITLE_MIN_TOKENS) return true;
+  return sim >= TITLE_SIMILAR && (bothDeadlines || bothPrizes);
+}
+
+const FILLABLE = [
+  "prize", "prizeValue", "description", "requirements", "entryUrl", "outboundUrl", "createdAt",
+] as const;
+
+// Folds `other` into `canonical`: missing fields are filled in and other's
+// link (plus anything it had already absorbed) goes to alsoSeenOn, its id to
+// mergedIds. A deadline moves with its confidence, and a surer reading
+// replaces a shakier one.
+export function mergeDuplicate(canonical: Competition, other: Competition): Competition {
+  const seen = new Map<string, SeenOn>();
+  const candidates = [
+    ...(canonical.alsoSeenOn || []),
+    { source: other.source, link: other.link },
+    ...(other.alsoSeenOn || []),
+  ];
+  for (const s of candidates) {
+    if (!s?.link || cleanUrl(s.link) === cleanUrl(canonical.link)) continue;
+    seen.set(cleanUrl(s.link), { source: s.source, link: s.link });
+  }
+  const out: Record<string, unknown> = { ...canonical };
+  for (const key of FILLABLE) {
+    if (out[key] == null && other[key] != null) out[key] = other[key];
+  }
+  if (other.deadline && (!canonical.deadline || (other.deadlineConfidence ?? 1) > (canonical.deadlineConfidence ?? 1))) {
+    out.deadline = other.deadline;
+    out.deadlineConfidence = other.deadlineConfidence;
+  }
+  out.tags = Array.from(new Set([...(canonical.tags || []), ...(other.tags || [])]));
+  if (seen.size) out.alsoSeenOn = Array.from(seen.values());
+  const mergedIds = new Set([...(canonical.mergedIds || []), other.id, ...(other.mergedIds || [])]);
+  mergedIds.delete(canonical.id);
+  if (mergedIds.size) out.mergedIds = Array.from(mergedIds);
+  return out as Competition;
+}
+
+function score(x: Competition) {
+  return (x.deadline ? 3 : 0) + (x.createdAt ? 2 : 0) + (x.title?.length || 0) / 1000;
+}
+
+export function dedupe(items: Competition[]) {
+  const byLink = new Map<string, Competition>();
+  for (const it of items) {
+    if (!it.link) continue;
+    const key = cleanUrl(it.link);
+    const prev = byLink.get(key);
+    if (!prev) byLink.set(key, it);
+    else byLink.set(key, score(it) >= score(prev) ? mergeDuplicate(it, prev) : mergeDuplicate(prev, it));
+  }
+  const withLinks = Array.from(byLink.values());
+  const noLinks = items.filter((x) => !x.link);
+  const final = [...withLinks];
+  const sig = (x: Competition) => `${(x.title || "").toLowerCase()}|${(x.source || "").toLowerCase()}`;
+  const seenSig = new Set(final.map(sig));
+  for (const it of noLinks) {
+    const s = sig(it);
+    if (!seenSig.has(s)) {
+      seenSig.add(s);
+      final.push(it);
+    }
+  }
+  return clusterDuplicates(final);
+}
+
+function clusterDuplicates(items: Competition[]) {
+  const nodes: Node[] = items.map((item) => ({
+    item,
+    tokens: titleTokens(item.title),
+    target: cleanUrl(item.entryUrl || item.outboundUrl || item.link || ""),
+  }));
+  // Union-find over candidate pairs. Two clusters only join when every
+  // member of one can share with every member of the other, so an item with
+  // no deadline can't bridge two that disagree.
+  const parent = nodes.map((_, i) => i);
+  const members = new Map(nodes.map((n, i) => [i, [n.item]]));
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const [ri, rj] = [find(i), find(j)];
+      if (ri === rj || !isNearDuplicate(nodes[i], nodes[j])) continue;
+      const a = members.get(ri)!;
+      const b = members.get(rj)!;
+      if (!a.every((x) => b.every((y) => canShareCluster(x, y)))) continue;
+      parent[rj] = ri;
+      members.set(ri, [...a, ...b]);
+      members.delete(rj);
+    }
+  }
+  const clusters = [...members.values()];
+
+  const out: Competition[] = [];
+  for (const cluster of clusters) {
+    if (cluster.length === 1) {
+      out.push(cluster[0]);
+      continue;
+    }
+    // Keep the previous canonical item when there is one so ids stay stable
+    // between runs; otherwise the most complete item wins.
+    const rank = (x: Competition) => (x.alsoSeenOn?.length ? 100 : 0) + score(x);
+    cluster.sort((a, b) => rank(b) - rank(a));
+    out.push(cluster.slice(1).reduce(mergeDuplicate, cluster[0]));
+  }
+  return out;
+}
@@ -0,0 +1,126 @@
+// scripts/ingest/fetch.ts
+// Network access for the pipeline: one shared scheduler plus the HTTP cache.
+//
+// The cache is persisted between runs (the workflow restores and saves it with
+// actions/cache). Every response records its ETag/Last-Modified so the next
+// request can be conditional. Feeds and index pages also keep their body, so a
+// 304 is answered from the cache; detail pages keep only validators and are
+// skipped outright while fresh (their items are already in feeds.json).
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ROOT, SETTINGS, UA } from "./config";
+import { createScheduler, type SchedulerOptions } from "./scheduler";
+import { days } from "./util";
+
+type CacheEntry = {
+  etag?: string;
+  lastModified?: string;
+  checkedAt: string;
+  body?: string;
+};
+
+export const httpCache = {
+  file: null as string | null,
+  entries: {} as Record<string, CacheEntry>,
+  stats: { fetched: 0, notModified: 0, skipped: 0 },
+};
+
+const SCHEDULER_DEFAULTS: SchedulerOptions = {
+  concurrency: SETTINGS.FETCH_CONCURRENCY,
+  perHost: SETTINGS.FETCH_PER_HOST,
+  hostDelayMs: SETTINGS.FETCH_HOST_DELAY_MS,
+  timeoutMs: SETTINGS.FETCH_TIMEOUT_MS,
+  retries: SETTINGS.FETCH_RETRIES,
+  userAgent: UA,
+};
+
+export let scheduler = createScheduler(SCHEDULER_DEFAULTS);
+
+// Replaces the shared scheduler; the fixture tests use this to point every
+// request at a local server.
+export function configureScheduler(overrides: SchedulerOptions = {}) {
+  scheduler = createScheduler({ ...SCHEDULER_DEFAULTS, ...overrides });
+  lastStatus.clear();
+  return scheduler;
+}
+
+export async function loadHttpCache(file: string | null) {
+  httpCache.file = file;
+  if (!file) return;
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8"));
+    if (parsed?.version === 1 && parsed.entries && typeof parsed.entries === "object") httpCache.entries = parsed.entries;
+    console.log(`[http-cache] loaded ${Object.keys(httpCache.entries).length} entries from ${path.relative(ROOT, file)}`);
+  } catch {
+    console.log(`[http-cache] no cache at ${path.relative(ROOT, file)} — starting cold`);
+  }
+}
+
+export async function saveHttpCache() {
+  if (!httpCache.file) return;
+  const cutoff = Date.now() - days(SETTINGS.HTTP_CACHE_MAX_AGE_DAYS);
+  const entries: Record<string, CacheEntry> = {};
+  for (const [url, e] of Object.entries(httpCache.entries)) {
+    if (Date.parse(e.checkedAt) >= cutoff) entries[url] = e;
+  }
+  await fs.mkdir(path.dirname(httpCache.file), { recursive: true });
+  await fs.writeFile(httpCache.file, JSON.stringify({ version: 1, entries }), "utf8");
+  const { fetched, notModified, skipped } = httpCache.stats;
+  console.log(`[http-cache] saved ${Object.keys(entries).length} entries (fetched=${fetched}, 304=${notModified}, skipped=${skipped})`);
+}
+
+// Checked within maxAgeHours, whatever the outcome was.
+export function isFresh(url: string, maxAgeHours: number) {
+  const e = httpCache.entries[url];
+  return !!e && Date.parse(e.checkedAt) > Date.now() - maxAgeHours * 60 * 60 * 1000;
+}
+
+// Last HTTP status per URL, for the health report.
+export const lastStatus = new Map<string, number>();
+
+export type HttpError = Error & { status?: number };
+
+type FetchTextOptions = { as?: "text" | "buffer"; keepBody?: boolean };
+
+// keepBody: false is for detail pages — an unchanged page resolves to null
+// instead of its (uncached) body, and callers keep the item they already have.
+export async function fetchText(url: string, opts?: { as?: "text"; keepBody?: true }): Promise<string>;
+export async function fetchText(url: string, opts: { as?: "text"; keepBody: false }): Promise<string | null>;
+export async function fetchText(url: string, opts: FetchTextOptions & { as: "buffer" }): Promise<Buffer | null>;
+export async function fetchText(url: string, { as = "text", keepBody = true }: FetchTextOptions = {}) {
+  const cached = httpCache.file ? httpCache.entries[url] : undefined;
+  const headers: Record<string, string> = {
+    accept:
+      "text/html,application/xhtml+xml,application/xml;q=0.9,application/rss+xml;q=0.9,*/*;q=0.8",
+  };
+  const canRevalidate = !!cached && (!keepBody || (as === "text" && typeof cached.body === "string"));
+  if (canRevalidate && cached.etag) headers["if-none-match"] = cached.etag;
+  if (canRevalidate && cached.lastModified) headers["if-modified-since"] = cached.lastModified;
+
+  const res = await scheduler.request(url, { headers, redirect: "follow" });
+  lastStatus.set(url, res.status);
+  const checkedAt = new Date().toISOString();
+  if (res.status === 304 && cached && canRevalidate) {
+    httpCache.entries[url] = { ...cached, checkedAt };
+    httpCache.stats.notModified++;
+    return keepBody ? cached.body : null;
+  }
+  if (!res.ok) throw Object.assign(new Error(`HTTP ${res.status}`), { status: res.status }) as HttpError;
+  const body = as === "buffer" ? res.body : res.body.toString("utf8");
+  httpCache.stats.fetched++;
+  if (httpCache.file) {
+    httpCache.entries[url] = {
+      etag: res.headers.get("etag") || undefined,
+      lastModified: res.headers.get("last-modified") || undefined,
+      checkedAt,
+      body: keepBody && typeof body === "string" ? body : undefined,
+    };
+  }
+  return body;
+}
+
+// Where a redirector (e.g. cheapies.nz /goto/) ends up.
+export async function resolveRedirect(url: string) {
+  const res = await scheduler.request(url, { method: "HEAD", redirect: "follow" });
+  return res.url || url;
+}
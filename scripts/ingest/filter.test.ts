@@ -0,0 +1,69 @@
+// scripts/ingest/filter.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Competition, ExpiredCompetition } from "./types";
+import { mergeExpired, partitionFresh } from "./filter";
+
+const runAt = "2026-08-23T00:00:00.000Z";
+
+const item = (id: string, fields: Partial<Competition> = {}): Competition => ({
+  id,
+  title: `Win ${id}`,
+  link: `https://contest.co.nz/${id}`,
+  source: "contest.co.nz",
+  createdAt: "2026-08-01T00:00:00.000Z",
+  ...fields,
+});
+
+const closed = (id: string, closedAt: string, closedReason: ExpiredCompetition["closedReason"] = "deadline"): ExpiredCompetition => ({
+  ...item(id),
+  status: "closed",
+  closedAt,
+  closedReason,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(runAt));
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("partitionFresh", () => {
+  it("closes past deadlines at the deadline and stale items at the run", () => {
+    const { kept, closed } = partitionFresh(
+      [
+        item("open", { deadline: "2026-09-01T11:59:00.000Z" }),
+        item("past", { deadline: "2026-08-20T11:59:00.000Z" }),
+        item("stale", { createdAt: "2025-01-01T00:00:00.000Z" }),
+        item("undated"),
+      ],
+      runAt
+    );
+    expect(kept.map((c) => c.id)).toEqual(["open", "undated"]);
+    expect(closed.map(({ id, status, closedAt, closedReason }) => ({ id, status, closedAt, closedReason }))).toEqual([
+      { id: "past", status: "closed", closedAt: "2026-08-20T11:59:00.000Z", closedReason: "deadline" },
+      { id: "stale", status: "closed", closedAt: runAt, closedReason: "age" },
+    ]);
+  });
+});
+
+describe("mergeExpired", () => {
+  it("adds newly closed items to the previous archive", () => {
+    const merged = mergeExpired([closed("a", "2026-08-01T11:59:00.000Z")], [closed("b", "2026-08-20T11:59:00.000Z")], []);
+    expect(merged.map((c) => c.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("drops items that are back in the feed", () => {
+    expect(mergeExpired([closed("a", "2026-08-01T11:59:00.000Z")], [], [item("a")])).toEqual([]);
+  });
+
+  it("keeps the first date an item aged out", () => {
+    const merged = mergeExpired([closed("a", "2026-07-01T00:00:00.000Z", "age")], [closed("a", runAt, "age")], []);
+    expect(merged[0].closedAt).toBe("2026-07-01T00:00:00.000Z");
+  });
+
+  it("forgets items closed more than a year ago", () => {
+    expect(mergeExpired([closed("a", "2025-06-01T11:59:00.000Z")], [], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+// scripts/ingest/filter.ts
+// Which items are still worth showing, and the archive of those that aren't
+// (public/expired.json).
+import type { ClosedReason, Competition, ExpiredCompetition } from "./types";
+import { SETTINGS } from "./config";
+import { days } from "./util";
+
+export function isPast(deadlineIso: string | null | undefined) {
+  if (!deadlineIso) return false;
+  const t = Date.parse(deadlineIso);
+  return Number.isFinite(t) && t < Date.now();
+}
+
+export function isVeryOld(createdAtIso: string | null | undefined) {
+  if (!createdAtIso || !SETTINGS.MAX_ITEM_AGE_DAYS) return false;
+  const t = Date.parse(createdAtIso);
+  return Number.isFinite(t) && t < Date.now() - days(SETTINGS.MAX_ITEM_AGE_DAYS);
+}
+
+// Why an item leaves feeds.json, or null while it's still worth showing.
+export function closedReason(item: Competition): ClosedReason | null {
+  if (SETTINGS.DROP_PAST_DEADLINES && isPast(item.deadline)) return "deadline";
+  if (!item.deadline && isVeryOld(item.createdAt)) return "age";
+  return null;
+}
+
+export function freshnessFilter(item: Competition) {
+  return !closedReason(item);
+}
+
+// Items that stay in feeds.json, and those that closed this run. An item
+// without a deadline closes at the run that aged it out.
+export function partitionFresh(items: Competition[], runAt = new Date().toISOString()) {
+  const kept: Competition[] = [];
+  const closed: ExpiredCompetition[] = [];
+  for (const item of items) {
+    const reason = closedReason(item);
+    if (!reason) kept.push(item);
+    else closed.push({ ...item, status: "closed", closedAt: reason === "deadline" ? item.deadline! : runAt, closedReason: reason });
+  }
+  return { kept, closed };
+}
+
+// Next expired.json from the previous one. An item back in the feed (say, a
+// deadline pushed out) leaves the archive; one that aged out again keeps the
+// date it first did. Anything closed more than EXPIRED_MAX_AGE_DAYS ago drops off.
+export function mergeExpired(previous: ExpiredCompetition[], closed: ExpiredCompetition[], kept: Competition[]) {
+  const live = new Set(kept.map((c) => c.id));
+  const byId = new Map<string, ExpiredCompetition>();
+  for (const item of previous) {
+    if (!live.has(item.id)) byId.set(item.id, item);
+  }
+  for (const item of closed) {
+    const prev = byId.get(item.id);
+    const again = prev && prev.closedReason === "age" && item.closedReason === "age";
+    byId.set(item.id, again ? { ...item, closedAt: prev.closedAt } : item);
+  }
+  const cutoff = Date.now() - days(SETTINGS.EXPIRED_MAX_AGE_DAYS);
+  return [...byId.values()].filter((item) => Date.parse(item.closedAt) >= cutoff);
+}
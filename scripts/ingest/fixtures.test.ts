@@ -0,0 +1,88 @@
+// scripts/ingest/fixtures.test.ts
+// Every source in sources.json, run against its saved pages
+// (scripts/fixtures/) through a local HTTP stand-in. The pages are synthetic
+// for now (see harness.ts), so this pins the parsers against known markup
+// rather than checking the live sites. A selector change or a parser change
+// shows up as a snapshot diff; re-record with `npm run fixtures:record` and
+// update with `npm run test:scripts -- -u`.
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Competition, SourcesConfig } from "./types";
+import { ROOT } from "./config";
+import { compileCategories, enrichItem } from "./categories";
+import { crawlSite } from "./crawl";
+import { dedupe } from "./dedupe";
+import { configureScheduler } from "./fetch";
+import { freshnessFilter } from "./filter";
+import { resolveEntryUrls } from "./links";
+import { normalizeItem } from "./normalize";
+import { parseRSSFeed } from "./rss";
+import { loadFixtures, replayFetch, startFixtureServer, type Fixture } from "../fixtures/harness";
+
+// Date-only strings parse in local time; the workflow runs in UTC.
+process.env.TZ = "UTC";
+const NOW = new Date("2026-08-23T00:00:00Z");
+
+const sources: SourcesConfig = JSON.parse(fs.readFileSync(path.resolve(ROOT, "sources.json"), "utf8"));
+const rss = sources.rss || [];
+const sites = sources.sites || [];
+
+let fixtures: Map<string, Fixture>;
+let server: Awaited<ReturnType<typeof startFixtureServer>>;
+
+beforeAll(async () => {
+  fixtures = await loadFixtures();
+  server = await startFixtureServer(fixtures);
+  configureScheduler({ fetchImpl: replayFetch(server.origin), robots: false, hostDelayMs: 0, retries: 0 });
+  vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  configureScheduler();
+  await server?.close();
+});
+
+describe("rss feeds", () => {
+  it.each(rss)("%s", async (url) => {
+    expect(fixtures.has(url), `no fixture recorded for ${url}`).toBe(true);
+    const items = await parseRSSFeed(url);
+    expect(items.length).toBeGreaterThan(0);
+    expect(items).toMatchSnapshot();
+  });
+});
+
+describe("sites", () => {
+  it.each(sites.map((s) => [s.index, s] as const))("%s", async (index, site) => {
+    expect(fixtures.has(index), `no fixture recorded for ${index}`).toBe(true);
+    const result = await crawlSite(site);
+    expect(result.errors).toEqual([]);
+    expect(result.items.length).toBeGreaterThan(0);
+    // A title that fell all the way back to the URL means the selectors missed.
+    expect(result.items.filter((it) => it.title === it.link).map((it) => it.link)).toEqual([]);
+    expect(result).toMatchSnapshot();
+  });
+});
+
+describe("pipeline", () => {
+  it("resolves entry links, merges cross-posts and tags categories", async () => {
+    const raw: Competition[] = [];
+    for (const url of rss) raw.push(...(await parseRSSFeed(url)));
+    for (const site of sites) raw.push(...(await crawlSite(site)).items);
+
+    const combined = await resolveEntryUrls(raw.map(normalizeItem));
+    const categories = compileCategories(sources.categories);
+    const kept = dedupe(combined)
+      .map((it) => enrichItem(it, categories))
+      .filter(freshnessFilter);
+
+    // The Weber BBQ is posted on three sources and should come out once.
+    const weber = kept.filter((it) => /weber/i.test(it.title));
+    expect(weber).toHaveLength(1);
+    expect(weber[0].alsoSeenOn).toHaveLength(2);
+    expect(kept).toMatchSnapshot();
+  });
+});
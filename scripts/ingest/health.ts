@@ -0,0 +1,72 @@
+// scripts/ingest/health.ts
+// public/ingestion.json keeps one record per source for the latest run plus a
+// short rolling history. A source that yields nothing for SILENT_AFTER_RUNS
+// runs in a row is "silent" even if every request succeeded — that's how a
+// changed selector or a dead feed usually shows up.
+//
+// The report types are the app's (src/lib/health.ts), so ingestion.json is
+// typed the same on both sides.
+import type { HealthRun, IngestionReport, SourceHealth } from "../../src/lib/health";
+import type { CrawlError, Origin } from "./types";
+import { SETTINGS } from "./config";
+
+export type { HealthRun, IngestionReport, SourceHealth, SourceStatus } from "../../src/lib/health";
+
+export async function measure<T>(run: () => Promise<T>) {
+  const t0 = Date.now();
+  try {
+    return { result: await run(), error: null, durationMs: Date.now() - t0 };
+  } catch (e) {
+    return { result: null as T | null, error: e as Error, durationMs: Date.now() - t0 };
+  }
+}
+
+type SourceRun = {
+  kind: SourceHealth["kind"];
+  origin: Origin;
+  items: number;
+  skipped?: number;
+  error: string | null;
+  errors?: CrawlError[];
+  httpStatus?: number | null;
+  durationMs: number;
+  extra?: Pick<SourceHealth, "indexed" | "pages" | "skipped">;
+};
+
+export function sourceHealth(
+  { kind, origin, items, skipped = 0, error, errors = [], httpStatus, durationMs, extra }: SourceRun,
+  prev: SourceHealth | undefined,
+  runAt: string
+): SourceHealth {
+  // Unchanged detail pages (HTTP cache) still count as the source working.
+  const yielded = items + skipped;
+  const silentRuns = yielded > 0 ? 0 : (prev?.silentRuns ?? 0) + 1;
+  const messages = [error, ...errors.map((e) => `${e.message} (${e.url})`)].filter((m): m is string => !!m).slice(0, 5);
+  const status = error || (yielded === 0 && errors.length)
+    ? "error"
+    : yielded > 0
+      ? "ok"
+      : silentRuns >= SETTINGS.SILENT_AFTER_RUNS
+        ? "silent"
+        : "empty";
+  return {
+    kind,
+    origin,
+    status,
+    items,
+    ...extra,
+    httpStatus: httpStatus ?? null,
+    durationMs,
+    errors: messages,
+    silentRuns,
+    lastOkAt: yielded > 0 ? runAt : prev?.lastOkAt ?? null,
+  };
+}
+
+export function historyEntry(report: Omit<IngestionReport, "history">): HealthRun {
+  const sources: HealthRun["sources"] = {};
+  for (const [key, s] of Object.entries({ ...report.sources.rss, ...report.sources.sites })) {
+    sources[key] = { status: s.status, items: s.items, httpStatus: s.httpStatus, durationMs: s.durationMs };
+  }
+  return { finishedAt: report.finishedAt, durationMs: report.durationMs, kept: report.counts.kept, sources };
+}
@@ -0,0 +1,128 @@
+// scripts/ingest/links.ts
+// Links out of aggregator pages: the promoter's page for duplicate detection
+// and the "enter here" link users actually want.
+import * as cheerio from "cheerio";
+import type { AnyNode, Cheerio, CheerioAPI } from "cheerio";
+import type { Competition } from "./types";
+import { SETTINGS } from "./config";
+import { fetchText, isFresh, resolveRedirect } from "./fetch";
+import { cleanUrl, toAbsolute } from "./urls";
+import { days } from "./util";
+
+// First link in the page body that leaves the aggregator, skipping social
+// networks and share buttons. Used to spot the same promotion across sources.
+const NOT_PROMOTER_RE =
+  /(^|\.)(?:facebook|fb|instagram|twitter|x|tiktok|youtube|youtu|pinterest|linkedin|whatsapp|reddit|google|apple|addtoany|disqus|gravatar)\.(?:com|be|me|nz|co\.nz)$/i;
+
+function contentScope($: CheerioAPI): Cheerio<AnyNode> {
+  return $("main").length ? $("main") : $("article").length ? $("article") : $.root();
+}
+
+export function extractOutboundLink($: CheerioAPI, pageUrl: string, ownHost?: string | null) {
+  const own = (ownHost || new URL(pageUrl).hostname).replace(/^www\./, "");
+  let found: string | null = null;
+  contentScope($).find("a[href]").each((_, a) => {
+    const abs = toAbsolute(pageUrl, $(a).attr("href"));
+    if (!abs || !/^https?:/i.test(abs)) return;
+    const host = new URL(abs).hostname.replace(/^www\./, "");
+    if (host === own || host.endsWith(`.${own}`) || NOT_PROMOTER_RE.test(host)) return;
+    found = cleanUrl(abs);
+    return false;
+  });
+  return found;
+}
+
+// Aggregators link to a discussion of the giveaway, not the entry form.
+// `selector` narrows the search to the post body where the promoter's link
+// lives; cheapies.nz wraps outbound links in its own /goto/ redirector.
+type Aggregator = { host: string; path: RegExp; selector: string };
+
+const AGGREGATORS: Aggregator[] = [
+  { host: "cheapies.nz", path: /^\/node\/\d+/, selector: "a[href*='/goto/']" },
+  { host: "contest.co.nz", path: /^\/Thread-/, selector: ".post_body a[href]" },
+];
+const ENTER_TEXT_RE = /\b(?:enter|entry|entries|click here|go to|visit|competition page)\b/i;
+
+export function aggregatorFor(link: string) {
+  try {
+    const u = new URL(link);
+    const host = u.hostname.replace(/^www\./, "");
+    return AGGREGATORS.find((a) => a.host === host && a.path.test(u.pathname)) || null;
+  } catch {
+    return null;
+  }
+}
+
+// The "enter here" link on a detail page. With a selector any external match
+// counts; otherwise the anchor text has to say so, since magazine pages link
+// to sponsors and stockists too.
+export async function resolveEntryLink($: CheerioAPI, pageUrl: string, ownHost?: string | null, selector?: string) {
+  const own = (ownHost || new URL(pageUrl).hostname).replace(/^www\./, "");
+  const isOwn = (u: string) => {
+    const host = new URL(u).hostname.replace(/^www\./, "");
+    return host === own || host.endsWith(`.${own}`);
+  };
+  const anchors = selector ? $(selector) : contentScope($).find("a[href]");
+  let candidate: string | null = null;
+  anchors.each((_, a) => {
+    const abs = toAbsolute(pageUrl, $(a).attr("href"));
+    if (!abs || !/^https?:/i.test(abs)) return;
+    const host = new URL(abs).hostname.replace(/^www\./, "");
+    if (NOT_PROMOTER_RE.test(host)) return;
+    const redirector = isOwn(abs) && /\/goto\//.test(abs);
+    if (isOwn(abs) && !redirector) return;
+    if (!selector && !ENTER_TEXT_RE.test(`${$(a).text()} ${$(a).attr("title") || ""}`)) return;
+    candidate = abs;
+    return false;
+  });
+  if (!candidate) return null;
+  if (isOwn(candidate)) candidate = await resolveRedirect(candidate);
+  return isOwn(candidate) ? null : cleanUrl(candidate);
+}
+
+// RSS items from aggregators only carry the thread link, so visit the thread
+// for the promoter's page. Newest first and capped per run; items that
+// already have an entryUrl (including from previous runs) are skipped.
+export async function resolveEntryUrls(items: Competition[]) {
+  const known = new Map<string, string>();
+  for (const it of items) if (it.link && it.entryUrl) known.set(cleanUrl(it.link), it.entryUrl);
+
+  const cutoff = Date.now() - days(SETTINGS.ENTRY_RESOLVE_MAX_AGE_DAYS);
+  const todo = new Map<string, { agg: Aggregator; createdAt: number }>();
+  for (const it of items) {
+    const key = cleanUrl(it.link || "");
+    if (!key || known.has(key) || todo.has(key)) continue;
+    const agg = aggregatorFor(key);
+    if (!agg || Date.parse(it.createdAt || "") < cutoff) continue;
+    // Checked recently and nothing found; try again once it goes stale.
+    if (isFresh(key, SETTINGS.DETAIL_REVALIDATE_HOURS)) continue;
+    todo.set(key, { agg, createdAt: Date.parse(it.createdAt || "") || 0 });
+  }
+  const queue = Array.from(todo.entries())
+    .sort((a, b) => b[1].createdAt - a[1].createdAt)
+    .slice(0, SETTINGS.ENTRY_RESOLVE_LIMIT);
+
+  let resolved = 0;
+  await Promise.all(
+    queue.map(async ([key, { agg }]) => {
+      try {
+        const html = await fetchText(key, { keepBody: false });
+        if (html === null) return;
+        const $ = cheerio.load(html);
+        const url = await resolveEntryLink($, key, agg.host, agg.selector);
+        if (url) {
+          known.set(key, url);
+          resolved++;
+        }
+      } catch (e) {
+        console.log(`[entry] ${key} -> ${(e && e.message) || e}`);
+      }
+    })
+  );
+  console.log(`[entry] resolved ${resolved}/${queue.length} aggregator link(s) (${todo.size} pending)`);
+
+  return items.map((it) => {
+    const url = it.link && known.get(cleanUrl(it.link));
+    return url && !it.entryUrl ? { ...it, entryUrl: url } : it;
+  });
+}
@@ -0,0 +1,113 @@
+// scripts/ingest/normalize.ts
+// Turning scraped fields and previously written items into Competitions.
+// A missing publish date falls back to the time the item was first seen, and
+// a missing deadline is left out rather than written as null.
+import type { EntryRequirements, Competition, Origin, SeenOn } from "./types";
+import { extractDeadlineFromTitle } from "./dates";
+import type { ParsedDate } from "./nzdate";
+import { cleanUrl, normalizeSourceLabel } from "./urls";
+import { clampFutureISO, collapse, sha1 } from "./util";
+
+type CompetitionFields = {
+  title: string;
+  link: string;
+  source: string;
+  origin?: Origin;
+  createdAt: string | null;
+  deadline: ParsedDate | null;
+  prize?: string | null;
+  prizeValue?: number | null;
+  description?: string | null;
+  requirements?: EntryRequirements | null;
+  entryUrl?: string | null;
+  outboundUrl?: string | null;
+};
+
+export function toCompetition({
+  title,
+  link,
+  source,
+  origin,
+  createdAt,
+  deadline,
+  prize,
+  prizeValue,
+  description,
+  requirements,
+  entryUrl,
+  outboundUrl,
+}: CompetitionFields): Competition {
+  return {
+    id: link || sha1(`${title}|${link}`),
+    title: collapse(title),
+    link,
+    source,
+    origin: origin || "repo",
+    createdAt: createdAt || new Date().toISOString(),
+    deadline: deadline?.iso,
+    deadlineConfidence: deadline?.confidence,
+    tags: [],
+    prize: prize || undefined,
+    prizeValue: prizeValue ?? undefined,
+    description: description || undefined,
+    requirements: requirements || undefined,
+    entryUrl: entryUrl || undefined,
+    outboundUrl: outboundUrl || undefined,
+  };
+}
+
+// Loose shape: fresh scrapes and whatever an older run left in feeds.json.
+export type RawItem = {
+  title?: string;
+  link?: string;
+  source?: string;
+  origin?: string;
+  createdAt?: string | null;
+  deadline?: string | null;
+  deadlineConfidence?: number;
+  prize?: string;
+  prizeValue?: number;
+  description?: string;
+  requirements?: EntryRequirements;
+  entryUrl?: string;
+  outboundUrl?: string;
+  alsoSeenOn?: SeenOn[];
+  tags?: string[];
+};
+
+export function normalizeItem(raw: RawItem): Competition {
+  const link = cleanUrl(raw.link || "");
+  const title = collapse(raw.title || "");
+  const source = normalizeSourceLabel(raw.source, link);
+  const createdAt = clampFutureISO(raw.createdAt || null) || new Date().toISOString();
+
+  // Prefer explicit deadline field; fall back to title extraction
+  let deadline: Partial<ParsedDate> | null = null;
+  if (raw.deadline) {
+    const d = Date.parse(raw.deadline);
+    if (Number.isFinite(d)) deadline = { iso: new Date(d).toISOString(), confidence: raw.deadlineConfidence };
+  }
+  if (!deadline) {
+    deadline = extractDeadlineFromTitle(title, createdAt);
+  }
+
+  const id = link || sha1(`${title}|${source}`);
+  return {
+    id,
+    title,
+    link,
+    source,
+    origin: raw.origin === "user" ? "user" : "repo",
+    createdAt,
+    deadline: deadline?.iso,
+    deadlineConfidence: deadline?.confidence,
+    prize: raw.prize || undefined,
+    prizeValue: Number.isFinite(raw.prizeValue) ? raw.prizeValue : undefined,
+    description: raw.description || undefined,
+    requirements: raw.requirements && typeof raw.requirements === "object" ? raw.requirements : undefined,
+    entryUrl: raw.entryUrl ? cleanUrl(raw.entryUrl) : undefined,
+    outboundUrl: raw.outboundUrl ? cleanUrl(raw.outboundUrl) : undefined,
+    alsoSeenOn: Array.isArray(raw.alsoSeenOn) && raw.alsoSeenOn.length ? raw.alsoSeenOn : undefined,
+    tags: Array.isArray(raw.tags) ? raw.tags : [],
+  };
+}
@@ -0,0 +1,69 @@
+// scripts/ingest/nzdate.test.ts
+import { describe, expect, it } from "vitest";
+import { LOW_DEADLINE_CONFIDENCE } from "../../src/lib/dates";
+import { fromNzWallTime, parseNzDate } from "./nzdate";
+
+// Saturday 22 August 2026, early afternoon in Auckland.
+const reference = "2026-08-22T01:05:44.000Z";
+const parse = (text: string, role?: "deadline" | "published") => parseNzDate(text, { reference, role });
+
+describe("fromNzWallTime", () => {
+  it("follows Auckland daylight saving", () => {
+    expect(new Date(fromNzWallTime(2026, 7, 1, 12)).toISOString()).toBe("2026-07-01T00:00:00.000Z");
+    expect(new Date(fromNzWallTime(2026, 1, 1, 12)).toISOString()).toBe("2025-12-31T23:00:00.000Z");
+  });
+
+  it("moves times skipped by the spring change forward", () => {
+    // Clocks go from 2am to 3am on 27 September 2026.
+    expect(new Date(fromNzWallTime(2026, 9, 27, 2, 30)).toISOString()).toBe("2026-09-26T14:30:00.000Z");
+  });
+});
+
+describe("parseNzDate", () => {
+  it.each([
+    ["2026-08-21T09:30:00+12:00", "2026-08-20T21:30:00.000Z", 1],
+    ["Fri, 21 Aug 2026 09:30:00 +1200", "2026-08-20T21:30:00.000Z", 1],
+    ["2026-10-01", "2026-10-01T10:59:00.000Z", 0.95],
+    ["7th March 2026", "2026-03-07T10:59:00.000Z", 0.9],
+    ["September 30, 2026 at 5pm", "2026-09-30T04:00:00.000Z", 0.95],
+    ["11:59pm NZST 31/07/26", "2026-07-31T11:59:00.000Z", 0.9],
+    ["31/03/26", "2026-03-31T10:59:00.000Z", 0.85],
+    ["5/4/2026", "2026-04-05T11:59:00.000Z", 0.75],
+    ["28th August", "2026-08-28T11:59:00.000Z", 0.75],
+    ["Sunday 30 August", "2026-08-30T11:59:00.000Z", 0.79],
+    ["Monday 30 August", "2026-08-30T11:59:00.000Z", 0.45],
+    ["midnight Sunday", "2026-08-23T11:59:00.000Z", 0.55],
+    ["in 5 days", "2026-08-27T11:59:00.000Z", 0.5],
+    ["tomorrow", "2026-08-23T11:59:00.000Z", 0.55],
+  ])("%s", (text, iso, confidence) => {
+    expect(parse(text)).toEqual({ iso, confidence });
+  });
+
+  it("puts a year-less deadline after the publish date", () => {
+    expect(parseNzDate("10 January", { reference: "2026-12-15T00:00:00Z" })).toEqual({
+      iso: "2027-01-10T10:59:00.000Z",
+      confidence: 0.65,
+    });
+    // A few weeks back is a stale page, not next year.
+    expect(parse("1 August")?.iso).toBe("2026-08-01T11:59:00.000Z");
+  });
+
+  it("puts a year-less publish date on or before the reference", () => {
+    expect(parse("20 August", "published")?.iso).toBe("2026-08-19T12:00:00.000Z");
+    expect(parse("30 August", "published")?.iso).toBe("2025-08-29T12:00:00.000Z");
+  });
+
+  it("marks inferred and relative deadlines as low confidence", () => {
+    expect(parse("7 March 2026")!.confidence).toBeGreaterThanOrEqual(LOW_DEADLINE_CONFIDENCE);
+    expect(parse("28th August")!.confidence).toBeGreaterThanOrEqual(LOW_DEADLINE_CONFIDENCE);
+    expect(parse("7 March")!.confidence).toBeLessThan(LOW_DEADLINE_CONFIDENCE);
+    expect(parse("midnight Sunday")!.confidence).toBeLessThan(LOW_DEADLINE_CONFIDENCE);
+  });
+
+  it("returns null without a date", () => {
+    expect(parse("soon")).toBeNull();
+    expect(parse("24/7 support")).toBeNull();
+    expect(parse("31/02/2026")).toBeNull();
+    expect(parse("")).toBeNull();
+  });
+});
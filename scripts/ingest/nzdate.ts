@@ -0,0 +1,240 @@
+// scripts/ingest/nzdate.ts
+// Reads the dates NZ competition pages actually write — "7th March",
+// "31/03/26", "11:59pm NZST Sunday 7 March", "midnight Sunday", "in 5 days" —
+// as Pacific/Auckland times.
+//
+// A date without a year takes the item's publish year, or the next one when
+// that would put a deadline more than a month before publishing ("closes 10
+// January" on a December post); relative dates count from the publish date.
+// A deadline without a time means the end of that day. Every result carries
+// a confidence from 0 to 1: 1 for a machine timestamp, down to 0.5 for a bare
+// weekday or "in 5 days". Below LOW_DEADLINE_CONFIDENCE (src/lib/dates.ts)
+// the card marks the deadline as a guess.
+
+export const NZ_TZ = "Pacific/Auckland";
+
+export type ParsedDate = { iso: string; confidence: number };
+
+// Deadlines run to the end of a day and prefer the future; publish dates
+// start their day and can't be far in the future.
+export type DateRole = "deadline" | "published";
+
+export type ParseOptions = { reference?: string | number | Date | null; role?: DateRole };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MONTH = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const WEEKDAY = "(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)";
+const ORDINAL = "(?:st|nd|rd|th)?";
+
+const ZONED_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$|(?:GMT|UTC|[+-]\d{4})\s*$/i;
+const ISO_RE = /\b(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/;
+const NUMERIC_RE = /\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{4}|\d{2}))?\b(?!\s*[ap]\.?m)/gi;
+const DAY_MONTH_RE = new RegExp(`\\b(\\d{1,2})${ORDINAL}(?:\\s+of)?[\\s-]+${MONTH}(?:,?[\\s-]+(\\d{4}))?\\b`, "i");
+const MONTH_DAY_RE = new RegExp(`\\b${MONTH}\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`, "i");
+const WEEKDAY_RE = new RegExp(`\\b(?:(this|next)\\s+)?${WEEKDAY}\\b`, "i");
+const IN_DAYS_RE = /\b(?:in\s+(\d{1,2}|a|one|two|three)\s+(day|week)s?|(\d{1,2})\s+(day|week)s?\s+(?:left|to go|remaining))\b/i;
+const TODAY_RE = /\b(today|tonight|tomorrow)\b/i;
+
+const TIME_RE = /\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m\.?\b|\b([01]?\d|2[0-3]):([0-5]\d)\b(?!\s*[/.-]\d)|\b(midnight|noon|midday)\b/i;
+const ZONE_RE = /\bNZ([SD])T\b/i;
+
+const WORD_NUMBERS: Record<string, number> = { a: 1, one: 1, two: 2, three: 3 };
+
+const partsFormat = new Intl.DateTimeFormat("en-NZ", {
+  timeZone: NZ_TZ,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+type WallTime = { year: number; month: number; day: number; hour: number; minute: number };
+
+// The Auckland wall clock at instant `ms`.
+export function nzWallTime(ms: number): WallTime {
+  const parts: Record<string, number> = {};
+  for (const p of partsFormat.formatToParts(new Date(ms))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+function offsetAt(ms: number) {
+  const t = Math.floor(ms / 60_000) * 60_000;
+  const w = nzWallTime(t);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute) - t;
+}
+
+// The instant the Auckland clock reads this. Times skipped by the spring
+// change land an hour later, like the clocks do.
+export function fromNzWallTime(year: number, month: number, day: number, hour = 0, minute = 0) {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const first = asUtc - offsetAt(asUtc);
+  const second = asUtc - offsetAt(first);
+  const exact = [first, second].find((t) => t + offsetAt(t) === asUtc);
+  return exact ?? Math.max(first, second);
+}
+
+function isRealDate(year: number, month: number, day: number) {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+}
+
+function weekdayOf(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function referenceMs(reference: ParseOptions["reference"]) {
+  if (reference == null) return Date.now();
+  const t = reference instanceof Date ? reference.getTime() : typeof reference === "number" ? reference : Date.parse(reference);
+  return Number.isFinite(t) ? t : Date.now();
+}
+
+type Time = { hour: number; minute: number; offsetHours?: number };
+
+function readTime(text: string): Time | null {
+  const m = text.match(TIME_RE);
+  const zone = text.match(ZONE_RE);
+  const offsetHours = zone ? (zone[1].toUpperCase() === "S" ? 12 : 13) : undefined;
+  if (!m) return null;
+  if (m[6]) {
+    const word = m[6].toLowerCase();
+    return word === "midnight" ? { hour: 23, minute: 59, offsetHours } : { hour: 12, minute: 0, offsetHours };
+  }
+  if (m[3]) {
+    const h = Number(m[1]);
+    if (h < 1 || h > 12) return null;
+    const pm = m[3].toLowerCase() === "p";
+    return { hour: (h % 12) + (pm ? 12 : 0), minute: Number(m[2] || 0), offsetHours };
+  }
+  return { hour: Number(m[4]), minute: Number(m[5]), offsetHours };
+}
+
+type Day = { year: number; month: number; day: number; confidence: number };
+
+// The year for a day and month given without one.
+function inferYear(month: number, day: number, ref: WallTime, role: DateRole): { year: number; rolled: boolean } | null {
+  const refDay = Date.UTC(ref.year, ref.month - 1, ref.day);
+  for (const year of role === "deadline" ? [ref.year, ref.year + 1] : [ref.year, ref.year - 1]) {
+    if (!isRealDate(year, month, day)) continue;
+    const t = Date.UTC(year, month - 1, day);
+    // A deadline up to a month before publishing is probably a stale page
+    // rather than next year; a publish date is never more than a day ahead.
+    if (role === "deadline" ? t >= refDay - 31 * DAY_MS : t <= refDay + DAY_MS) {
+      return { year, rolled: year !== ref.year };
+    }
+  }
+  return null;
+}
+
+function addDays(ref: WallTime, n: number): Day {
+  const d = new Date(Date.UTC(ref.year, ref.month - 1, ref.day) + n * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), confidence: 0.5 };
+}
+
+function fullYear(y: string) {
+  return y.length === 2 ? 2000 + Number(y) : Number(y);
+}
+
+function readDay(text: string, ref: WallTime, role: DateRole): Day | null {
+  let m = text.match(ISO_RE);
+  if (m) {
+    const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    return isRealDate(year, month, day) ? { year, month, day, confidence: 0.95 } : null;
+  }
+
+  const textual = text.match(DAY_MONTH_RE) || text.match(MONTH_DAY_RE);
+  if (textual) {
+    const dayFirst = /^\d/.test(textual[1]);
+    const day = Number(dayFirst ? textual[1] : textual[2]);
+    const month = MONTHS.indexOf((dayFirst ? textual[2] : textual[1]).slice(0, 3).toLowerCase()) + 1;
+    if (textual[3]) {
+      const year = Number(textual[3]);
+      return isRealDate(year, month, day) ? { year, month, day, confidence: 0.9 } : null;
+    }
+    const inferred = inferYear(month, day, ref, role);
+    return inferred && { year: inferred.year, month, day, confidence: inferred.rolled ? 0.65 : 0.75 };
+  }
+
+  for (const n of text.matchAll(NUMERIC_RE)) {
+    if (n[0] === "24/7") continue;
+    // NZ order: day first, always.
+    const [day, month] = [Number(n[1]), Number(n[2])];
+    if (n[3]) {
+      const year = fullYear(n[3]);
+      if (!isRealDate(year, month, day)) continue;
+      const ambiguous = day <= 12 && day !== month;
+      return { year, month, day, confidence: ambiguous ? 0.75 : 0.85 };
+    }
+    const inferred = inferYear(month, day, ref, role);
+    if (inferred) return { year: inferred.year, month, day, confidence: 0.6 };
+  }
+
+  m = text.match(IN_DAYS_RE);
+  if (m) {
+    const count = m[1] ? WORD_NUMBERS[m[1].toLowerCase()] ?? Number(m[1]) : Number(m[3]);
+    const unit = (m[2] || m[4]).toLowerCase();
+    return addDays(ref, count * (unit === "week" ? 7 : 1));
+  }
+
+  m = text.match(TODAY_RE);
+  if (m) return { ...addDays(ref, m[1].toLowerCase() === "tomorrow" ? 1 : 0), confidence: 0.55 };
+
+  m = text.match(WEEKDAY_RE);
+  if (m && role === "deadline") {
+    // The coming one (today counts); "next Friday" is read the same way.
+    const want = WEEKDAYS.indexOf(m[2].slice(0, 3).toLowerCase());
+    const ahead = (want - weekdayOf(ref.year, ref.month, ref.day) + 7) % 7;
+    return { ...addDays(ref, ahead), confidence: m[1]?.toLowerCase() === "next" ? 0.45 : 0.5 };
+  }
+  return null;
+}
+
+function clamp(n: number) {
+  return Math.round(Math.min(1, Math.max(0, n)) * 100) / 100;
+}
+
+// The first date in `text`, or null. `reference` is when the text was
+// published (defaults to now).
+export function parseNzDate(text: string | null | undefined, { reference, role = "deadline" }: ParseOptions = {}): ParsedDate | null {
+  if (!text) return null;
+  const value = text.trim();
+  if (!value) return null;
+
+  // Machine timestamps with a zone (meta tags, RSS pubDate) are exact.
+  if (ZONED_RE.test(value)) {
+    const t = Date.parse(value);
+    if (Number.isFinite(t)) return { iso: new Date(t).toISOString(), confidence: 1 };
+  }
+
+  const ref = nzWallTime(referenceMs(reference));
+  const day = readDay(value, ref, role);
+  if (!day) return null;
+
+  let confidence = day.confidence;
+  const named = value.match(WEEKDAY_RE);
+  if (named && day.confidence > 0.55) {
+    // "Sunday 7 March": a matching weekday backs the date up, a wrong one
+    // means the page has a typo somewhere.
+    const want = WEEKDAYS.indexOf(named[2].slice(0, 3).toLowerCase());
+    confidence *= want === weekdayOf(day.year, day.month, day.day) ? 1.05 : 0.6;
+  }
+
+  const iso = value.match(ISO_RE);
+  const time = iso?.[4] ? { hour: Number(iso[4]), minute: Number(iso[5]) } as Time : readTime(value);
+  if (time) confidence += 0.05;
+  const { hour, minute } = time || (role === "deadline" ? { hour: 23, minute: 59 } : { hour: 0, minute: 0 });
+
+  const ms =
+    time?.offsetHours != null
+      ? Date.UTC(day.year, day.month - 1, day.day, hour, minute) - time.offsetHours * 60 * 60 * 1000
+      : fromNzWallTime(day.year, day.month, day.day, hour, minute);
+  return { iso: new Date(ms).toISOString(), confidence: clamp(confidence) };
+}
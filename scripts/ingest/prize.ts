@@ -0,0 +1,35 @@
+// scripts/ingest/prize.ts
+import { collapse } from "./util";
+
+// Finds NZD amounts such as "Win $2K Cash", "worth $500", "RRP $1,299",
+// "valued at over NZ$3,500". Amounts qualified by worth/valued/RRP/total are
+// preferred (they describe the whole prize); otherwise the largest amount wins.
+// Other currencies (AU$, US$, £…) are ignored rather than guessed at: a "$"
+// glued to letters other than "NZ" doesn't count.
+const AMOUNT_RE =
+  /(?<![A-Z])(?:NZ)?\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?:\s*(k|m|thousand|million)\b)?/gi;
+const QUALIFIER_RE = /\b(?:worth|valued(?:\s+at)?|rrp|total(?:\s+value)?|value\s+of|prize\s+pool)\b(?:\s+(?:of|at|over|up\s+to|approx(?:imately)?|more\s+than))*\s*$/i;
+const MAX_PRIZE_NZD = 10_000_000;
+
+export function extractPrize(text: string | null | undefined): { amount: number; label: string } | null {
+  if (!text) return null;
+  const candidates: { amount: number; label: string; qualified: boolean }[] = [];
+  for (const m of String(text).matchAll(AMOUNT_RE)) {
+    const base = Number(m[1].replace(/,/g, "")) + (m[2] ? Number(`0.${m[2]}`) : 0);
+    const unit = (m[3] || "").toLowerCase();
+    const mult = unit === "k" || unit === "thousand" ? 1000 : unit === "m" || unit === "million" ? 1_000_000 : 1;
+    const amount = Math.round(base * mult);
+    if (!amount || amount > MAX_PRIZE_NZD) continue;
+    const before = text.slice(Math.max(0, m.index - 30), m.index);
+    const qual = before.match(QUALIFIER_RE);
+    const start = qual ? m.index - qual[0].length : m.index;
+    // Label: the qualifier + amount + the next word or two ("$2K Cash").
+    const after = text.slice(m.index + m[0].length).match(/^\s+(?:cash|prize\s+pack|voucher|gift\s+card|shopping\s+spree)s?\b/i);
+    const label = collapse(text.slice(start, m.index + m[0].length) + (after ? after[0] : ""));
+    candidates.push({ amount, label, qualified: !!qual });
+  }
+  if (!candidates.length) return null;
+  const pool = candidates.some((c) => c.qualified) ? candidates.filter((c) => c.qualified) : candidates;
+  const best = pool.reduce((a, b) => (b.amount > a.amount ? b : a));
+  return { amount: best.amount, label: best.label };
+}
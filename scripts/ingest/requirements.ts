@@ -0,0 +1,62 @@
+// scripts/ingest/requirements.ts
+import type { EntryRequirements, RequirementMethod } from "./types";
+
+// Pulled from detail-page text so the app can flag purchase-required or
+// social-only comps. Every field is optional; absent means "not stated".
+//   methods: form | email | social | purchase | receipt
+//   minAge:  18 from "must be 18+", "aged 16 years or over"…
+//   region:  "NZ" or a region/city for "Auckland residents only"
+//   limit:   person | household | day | week from "one entry per …"
+const NZ_REGIONS = [
+  "Auckland", "Northland", "Waikato", "Bay of Plenty", "Gisborne", "Hawke's Bay", "Taranaki",
+  "Manawat[uū]", "Wellington", "Tasman", "Nelson", "Marlborough", "West Coast", "Canterbury",
+  "Christchurch", "Otago", "Dunedin", "Queenstown", "Southland", "Hamilton", "Tauranga",
+];
+const REGION_RE = new RegExp(
+  `\\b(?:residents? of (?:the )?(${NZ_REGIONS.join("|")})\\b|(${NZ_REGIONS.join("|")}) residents? only\\b|open (?:only )?to (${NZ_REGIONS.join("|")}) residents?\\b)`,
+  "i"
+);
+const NZ_ONLY_RE =
+  /\b(?:(?:NZ|New Zealand) (?:citizens|residents?)|residents? of New Zealand|open to (?:all )?(?:New Zealanders|Kiwis)|(?:NZ|New Zealand) only)\b/i;
+const AGE_RES = [
+  /\b(?:aged?|must be|over the age of|at least)\s+(\d{2})\s*(?:\+|years?\b|yrs?\b|or (?:over|older)\b|and (?:over|older)\b)/i,
+  /\b(\d{2})\s*(?:\+|years? (?:of age )?(?:and|or) (?:over|older))(?=\W|$)/i,
+];
+const LIMIT_RE =
+  /\b(?:one|1|single)\s+(?:entry|entries)\s+(?:is\s+permitted\s+|allowed\s+)?per\s+(person|household|day|week)\b|\b(?:limit(?:ed)? (?:of )?)?(?:one|1) entry (?:per|each) (person|household|day|week)\b/i;
+const METHOD_RES: Record<RequirementMethod, RegExp> = {
+  receipt: /\b(?:upload|photo of|keep|submit|retain)\s+(?:your\s+|a\s+|the\s+)?(?:valid\s+)?(?:receipt|proof of purchase)\b|\breceipt upload\b/i,
+  purchase: /\b(?:purchase|buy|spend)\b[^.]{0,40}\bto (?:enter|go in the draw|be in to win)\b|\bpurchase (?:is )?(?:necessary|required)\b|\bwith (?:every|any|each) purchase\b/i,
+  social: /\b(?:follow|like|share|repost|comment on|tag (?:a |your |two |three )?(?:friends?|mates?))\b[^.]{0,40}\b(?:instagram|facebook|tiktok|page|post|account|us|friends?|mates?)\b/i,
+  email: /\b(?:email|e-mail)\s+(?:us|your (?:entry|answer|name|details)|entries)\b|\bsend (?:us )?an? email\b|\bemail\b[^.]{0,30}\bto enter\b/i,
+  form: /\b(?:fill (?:in|out)|complete)\s+(?:the\s+|our\s+)?(?:entry |online )?form\b|\bentry form\b|\benter your details\b/i,
+};
+
+export function extractRequirements(text: string | null | undefined): EntryRequirements | undefined {
+  if (!text) return undefined;
+  // "No purchase necessary" is the opposite of what the purchase pattern wants.
+  const t = String(text).replace(/\bno (?:purchase|payment) (?:is )?(?:necessary|required)\b/gi, " ");
+  const out: EntryRequirements = {};
+
+  const methods = (Object.keys(METHOD_RES) as RequirementMethod[]).filter((m) => METHOD_RES[m].test(t));
+  if (methods.includes("receipt") && !methods.includes("purchase")) methods.push("purchase");
+  if (methods.length) out.methods = methods;
+
+  for (const re of AGE_RES) {
+    const m = t.match(re);
+    const age = m ? Number(m[1]) : NaN;
+    if (age >= 13 && age <= 25) {
+      out.minAge = age;
+      break;
+    }
+  }
+
+  const region = t.match(REGION_RE);
+  if (region) out.region = region[1] || region[2] || region[3];
+  else if (NZ_ONLY_RE.test(t)) out.region = "NZ";
+
+  const limit = t.match(LIMIT_RE);
+  if (limit) out.limit = (limit[1] || limit[2]).toLowerCase() as EntryRequirements["limit"];
+
+  return Object.keys(out).length ? out : undefined;
+}
@@ -0,0 +1,50 @@
+// scripts/ingest/rss.ts
+import * as cheerio from "cheerio";
+import type { Competition, Origin } from "./types";
+import { extractDeadlineFromTitle } from "./dates";
+import { fetchText } from "./fetch";
+import { extractOutboundLink } from "./links";
+import { toCompetition } from "./normalize";
+import { fixRssLink, sourceFromLink } from "./urls";
+import { collapse } from "./util";
+
+// Throws when the feed can't be fetched; the run records that in the health report.
+export async function parseRSSFeed(url: string, origin: Origin = "repo") {
+  const xml = await fetchText(url);
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const nodes = $("item").length ? $("item") : $("entry");
+  const out: Competition[] = [];
+  nodes.each((_, el) => {
+    const node = $(el);
+    let title = collapse(node.find("title").first().text());
+    if (!title) {
+      const tCdata = node.find("title").first().html() || "";
+      title = collapse(tCdata.replace("<![CDATA[", "").replace("]]>", ""));
+    }
+    let link =
+      node.find("link").first().attr("href") || collapse(node.find("link").first().text());
+    if (!link) link = collapse(node.find("guid").first().text());
+    if (!link) link = collapse(node.find("id").first().text());
+    link = link.replace(/^<!\[CDATA\[/, "").replace(/\]\]>$/, "");
+    link = fixRssLink(url, link) || "";
+
+    const pub =
+      collapse(node.find("pubDate").first().text()) ||
+      collapse(node.find("updated").first().text()) ||
+      collapse(node.find("published").first().text());
+    const createdAt = pub && !isNaN(Date.parse(pub)) ? new Date(pub).toISOString() : null;
+    const host = sourceFromLink(link);
+    const source = host || new URL(url).hostname.replace(/^www\./, "");
+
+    // Extract deadline from title for RSS items (no page visit)
+    const deadline = extractDeadlineFromTitle(title, createdAt);
+
+    // Descriptions are escaped HTML; their links often go straight to the promoter.
+    const descHtml = node.find("description").first().text() || node.find("content").first().text();
+    const outboundUrl = descHtml && link ? extractOutboundLink(cheerio.load(descHtml), link) : null;
+
+    if (title && link) out.push(toCompetition({ title, link, createdAt, source, origin, deadline, outboundUrl }));
+  });
+  console.log(`[RSS] ${url} -> ${out.length} items`);
+  return out;
+}
@@ -0,0 +1,241 @@
+// scripts/ingest/scheduler.test.ts
+// Runs against a local HTTP fixture server; no network access needed.
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createScheduler, parseCrawlDelay } from "./scheduler";
+
+// hit counts requests to that path, this one included.
+type Route = (req: http.IncomingMessage, res: http.ServerResponse, hit: number) => void | Promise<void>;
+
+type FixtureServer = {
+  port: number;
+  hits: Map<string, number>;
+  // Requests open right now and the most seen at once, overall and per Host header.
+  inFlight: { now: number; max: number; byHost: Map<string | undefined, number>; maxByHost: Map<string | undefined, number> };
+  starts: { pathname: string; host?: string; at: number }[];
+  close: () => Promise<void>;
+};
+
+function startFixtureServer(routes: Record<string, Route>): Promise<FixtureServer> {
+  const hits = new Map<string, number>();
+  const inFlight: FixtureServer["inFlight"] = { now: 0, max: 0, byHost: new Map(), maxByHost: new Map() };
+  const starts: FixtureServer["starts"] = [];
+  const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://x");
+    const host = req.headers.host;
+    const hit = (hits.get(pathname) ?? 0) + 1;
+    hits.set(pathname, hit);
+    if (pathname !== "/robots.txt") starts.push({ pathname, host, at: Date.now() });
+
+    inFlight.now++;
+    inFlight.max = Math.max(inFlight.max, inFlight.now);
+    const h = (inFlight.byHost.get(host) ?? 0) + 1;
+    inFlight.byHost.set(host, h);
+    inFlight.maxByHost.set(host, Math.max(inFlight.maxByHost.get(host) ?? 0, h));
+    res.on("close", () => {
+      inFlight.now--;
+      inFlight.byHost.set(host, (inFlight.byHost.get(host) ?? 1) - 1);
+    });
+
+    const route = routes[pathname];
+    if (!route) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    await route(req, res, hit);
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ port, hits, inFlight, starts, close: () => new Promise<void>((r) => server.close(() => r())) });
+    });
+  });
+}
+
+const delay = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+function slow(ms: number, body = "ok"): Route {
+  return async (_req, res) => {
+    await delay(ms);
+    res.writeHead(200);
+    res.end(body);
+  };
+}
+
+describe("parseCrawlDelay", () => {
+  it("reads the * group", () => {
+    expect(parseCrawlDelay("User-agent: *\nDisallow: /admin\nCrawl-delay: 2\n")).toBe(2000);
+  });
+
+  it("prefers a group naming the agent", () => {
+    const txt = "User-agent: *\nCrawl-delay: 1\n\nUser-agent: parlay\nUser-agent: otherbot\nCrawl-delay: 0.5\n";
+    expect(parseCrawlDelay(txt, "parlay-ingest/1.0")).toBe(500);
+    expect(parseCrawlDelay(txt, "somebot")).toBe(1000);
+  });
+
+  it("ignores comments, junk values and other groups", () => {
+    expect(parseCrawlDelay("User-agent: googlebot\nCrawl-delay: 5\n")).toBe(0);
+    expect(parseCrawlDelay("User-agent: * # everyone\nCrawl-delay: soon\n")).toBe(0);
+    expect(parseCrawlDelay("")).toBe(0);
+  });
+
+  it("caps very long delays", () => {
+    expect(parseCrawlDelay("User-agent: *\nCrawl-delay: 86400\n")).toBe(30_000);
+  });
+});
+
+describe("createScheduler", () => {
+  // Every test starts its own server.
+  let fx: FixtureServer;
+  afterEach(async () => {
+    await fx.close();
+  });
+
+  describe("limits", () => {
+    beforeEach(async () => {
+      fx = await startFixtureServer({ "/slow": slow(60) });
+    });
+
+    it("never runs more than `concurrency` requests at once", async () => {
+      const s = createScheduler({ concurrency: 3, perHost: 10, robots: false });
+      // 127.0.0.1 and localhost are different hosts to the scheduler.
+      const urls = Array.from({ length: 10 }, (_, i) =>
+        `http://${i % 2 ? "127.0.0.1" : "localhost"}:${fx.port}/slow?i=${i}`
+      );
+      const results = await Promise.all(urls.map((u) => s.request(u)));
+      expect(results.every((r) => r.ok && r.body.toString() === "ok")).toBe(true);
+      expect(fx.inFlight.max).toBe(3);
+    });
+
+    it("limits requests per host", async () => {
+      const s = createScheduler({ concurrency: 10, perHost: 2, robots: false });
+      const urls = Array.from({ length: 8 }, (_, i) =>
+        `http://${i % 2 ? "127.0.0.1" : "localhost"}:${fx.port}/slow?i=${i}`
+      );
+      await Promise.all(urls.map((u) => s.request(u)));
+      for (const max of fx.inFlight.maxByHost.values()) expect(max).toBe(2);
+      expect(fx.inFlight.max).toBe(4);
+    });
+
+    it("spaces request starts per host", async () => {
+      const s = createScheduler({ concurrency: 10, perHost: 10, robots: false });
+      s.setHostDelay(`http://127.0.0.1:${fx.port}/`, 80);
+      await Promise.all([0, 1, 2].map((i) => s.request(`http://127.0.0.1:${fx.port}/slow?i=${i}`)));
+      const gaps = fx.starts.slice(1).map((x, i) => x.at - fx.starts[i].at);
+      for (const gap of gaps) expect(gap).toBeGreaterThanOrEqual(70);
+    });
+  });
+
+  describe("retries", () => {
+    it("backs off and retries 5xx until it succeeds", async () => {
+      fx = await startFixtureServer({
+        "/flaky": (_req, res, hit) => {
+          res.writeHead(hit < 3 ? 503 : 200);
+          res.end(hit < 3 ? "busy" : "finally");
+        },
+      });
+      const s = createScheduler({ retries: 3, backoffMs: 10, robots: false });
+      const res = await s.request(`http://127.0.0.1:${fx.port}/flaky`);
+      expect(res.status).toBe(200);
+      expect(res.body.toString()).toBe("finally");
+      expect(fx.hits.get("/flaky")).toBe(3);
+      expect(s.stats.retries).toBe(2);
+    });
+
+    it("honours Retry-After on 429", async () => {
+      fx = await startFixtureServer({
+        "/limited": (_req, res, hit) => {
+          if (hit === 1) {
+            res.writeHead(429, { "retry-after": "0.1" });
+            res.end();
+            return;
+          }
+          res.writeHead(200);
+          res.end("ok");
+        },
+      });
+      const s = createScheduler({ retries: 2, backoffMs: 5000, robots: false });
+      const started = Date.now();
+      const res = await s.request(`http://127.0.0.1:${fx.port}/limited`);
+      expect(res.ok).toBe(true);
+      // Retry-After (100ms) wins over the 5s backoff.
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    });
+
+    it("returns 4xx responses without retrying", async () => {
+      fx = await startFixtureServer({});
+      const s = createScheduler({ retries: 3, backoffMs: 10, robots: false });
+      const res = await s.request(`http://127.0.0.1:${fx.port}/missing`);
+      expect(res.status).toBe(404);
+      expect(fx.hits.get("/missing")).toBe(1);
+    });
+
+    it("gives up after the last retry and returns the final response", async () => {
+      fx = await startFixtureServer({
+        "/down": (_req, res) => {
+          res.writeHead(500);
+          res.end();
+        },
+      });
+      const s = createScheduler({ retries: 2, backoffMs: 5, robots: false });
+      const res = await s.request(`http://127.0.0.1:${fx.port}/down`);
+      expect(res.status).toBe(500);
+      expect(fx.hits.get("/down")).toBe(3);
+    });
+
+    it("retries dropped connections", async () => {
+      fx = await startFixtureServer({
+        "/reset": (req, res, hit) => {
+          if (hit === 1) {
+            req.socket.destroy();
+            return;
+          }
+          res.writeHead(200);
+          res.end("ok");
+        },
+      });
+      const s = createScheduler({ retries: 2, backoffMs: 5, robots: false });
+      const res = await s.request(`http://127.0.0.1:${fx.port}/reset`);
+      expect(res.ok).toBe(true);
+      expect(fx.hits.get("/reset")).toBe(2);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("aborts slow responses and rejects once retries run out", async () => {
+      fx = await startFixtureServer({ "/hang": slow(1000) });
+      const s = createScheduler({ timeoutMs: 50, retries: 1, backoffMs: 5, robots: false });
+      await expect(s.request(`http://127.0.0.1:${fx.port}/hang`)).rejects.toThrow(/timeout/);
+      expect(fx.hits.get("/hang")).toBe(2);
+      expect(s.stats.failures).toBe(1);
+    });
+  });
+
+  describe("robots.txt", () => {
+    it("applies Crawl-delay between requests to the host", async () => {
+      fx = await startFixtureServer({
+        "/robots.txt": (_req, res) => {
+          res.writeHead(200, { "content-type": "text/plain" });
+          res.end("User-agent: *\nCrawl-delay: 0.1\n");
+        },
+        "/page": slow(0),
+      });
+      const s = createScheduler({ concurrency: 10, perHost: 10 });
+      await Promise.all([0, 1, 2].map((i) => s.request(`http://127.0.0.1:${fx.port}/page?i=${i}`)));
+      expect(fx.hits.get("/robots.txt")).toBe(1);
+      const gaps = fx.starts.slice(1).map((x, i) => x.at - fx.starts[i].at);
+      for (const gap of gaps) expect(gap).toBeGreaterThanOrEqual(90);
+    });
+
+    it("carries on without a delay when robots.txt is missing", async () => {
+      fx = await startFixtureServer({ "/page": slow(0) });
+      const s = createScheduler();
+      const res = await s.request(`http://127.0.0.1:${fx.port}/page`);
+      expect(res.ok).toBe(true);
+      expect(fx.hits.get("/robots.txt")).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+// scripts/ingest/scheduler.ts
+// Polite concurrent fetching for the ingestion script:
+//   - a global concurrency limit and a per-host limit
+//   - per-host spacing between request starts (site throttle_ms, robots.txt
+//     Crawl-delay, whichever is larger)
+//   - per-request timeouts covering headers and body
+//   - exponential-backoff retries on 429, 5xx, timeouts and network errors
+//     (Retry-After is honoured when the server sends one)
+//
+// request() resolves to a plain { url, status, ok, headers, body } object with
+// the body already buffered, so the timeout also covers slow downloads.
+
+export type FetchedResponse = {
+  url: string;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: Buffer;
+};
+
+export type SchedulerOptions = {
+  concurrency?: number;
+  perHost?: number;
+  hostDelayMs?: number;
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  robots?: boolean;
+  robotsAgent?: string;
+  userAgent?: string;
+  fetchImpl?: typeof fetch;
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+type HostState = {
+  active: number;
+  lastStart: number;
+  delayMs: number;
+  crawlDelayMs: number;
+  robots: Promise<void> | null;
+};
+
+const ROBOTS_TIMEOUT_MS = 5000;
+const MAX_CRAWL_DELAY_MS = 30_000;
+
+function wait(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// Crawl-delay (in ms) from the most specific group matching `agent`, falling
+// back to the "*" group. Consecutive User-agent lines share one group.
+export function parseCrawlDelay(robotsTxt: string | null | undefined, agent = "*") {
+  const want = agent.toLowerCase();
+  let groupAgents: string[] = [];
+  let inRules = false;
+  let specific: number | null = null;
+  let wildcard: number | null = null;
+  for (const rawLine of String(robotsTxt || "").split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (key === "user-agent") {
+      if (inRules) groupAgents = [];
+      inRules = false;
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+    inRules = true;
+    if (key !== "crawl-delay") continue;
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds < 0) continue;
+    const ms = Math.min(MAX_CRAWL_DELAY_MS, Math.round(seconds * 1000));
+    if (want !== "*" && groupAgents.some((a) => a !== "*" && want.includes(a))) specific ??= ms;
+    else if (groupAgents.includes("*")) wildcard ??= ms;
+  }
+  return specific ?? wildcard ?? 0;
+}
+
+// Retry-After is either seconds or an HTTP date.
+function retryAfterMs(headers: Headers | undefined) {
+  const raw = headers?.get("retry-after");
+  if (!raw) return null;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(raw);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+export function createScheduler({
+  concurrency = 6,
+  perHost = 2,
+  hostDelayMs = 0,
+  timeoutMs = 20_000,
+  retries = 3,
+  backoffMs = 500,
+  maxBackoffMs = 15_000,
+  robots = true,
+  robotsAgent = "*",
+  userAgent,
+  fetchImpl = globalThis.fetch,
+}: SchedulerOptions = {}) {
+  const hosts = new Map<string, HostState>();
+  const queue: { host: HostState; start: () => void }[] = [];
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const stats = { requests: 0, retries: 0, failures: 0 };
+
+  function hostState(host: string) {
+    let h = hosts.get(host);
+    if (!h) {
+      h = { active: 0, lastStart: -Infinity, delayMs: hostDelayMs, crawlDelayMs: 0, robots: null };
+      hosts.set(host, h);
+    }
+    return h;
+  }
+
+  function spacing(h: HostState) {
+    return Math.max(h.delayMs, h.crawlDelayMs);
+  }
+
+  // Start every queued request whose global/host slot and spacing allow it;
+  // if some are only waiting on spacing, come back when the first is due.
+  // Spacing runs on the monotonic clock so a faked or adjusted Date can't stall it.
+  function pump() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const now = performance.now();
+    let nextAt = Infinity;
+    for (let i = 0; i < queue.length && active < concurrency; ) {
+      const job = queue[i];
+      const h = job.host;
+      const dueAt = h.lastStart + spacing(h);
+      if (h.active >= perHost) {
+        i++;
+      } else if (dueAt > now) {
+        nextAt = Math.min(nextAt, dueAt);
+        i++;
+      } else {
+        queue.splice(i, 1);
+        active++;
+        h.active++;
+        h.lastStart = now;
+        job.start();
+      }
+    }
+    if (nextAt !== Infinity && active < concurrency) timer = setTimeout(pump, nextAt - now);
+  }
+
+  function acquire(h: HostState) {
+    return new Promise<void>((start) => {
+      queue.push({ host: h, start });
+      pump();
+    });
+  }
+
+  function release(h: HostState) {
+    active--;
+    h.active--;
+    pump();
+  }
+
+  async function fetchWithTimeout(url: string, init: RequestInit, ms: number): Promise<FetchedResponse> {
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(new Error(`timeout after ${ms}ms`)), ms);
+    try {
+      const res = await fetchImpl(url, { ...init, signal: controller.signal });
+      const body = Buffer.from(await res.arrayBuffer());
+      return { url: res.url || url, status: res.status, ok: res.ok, headers: res.headers, body };
+    } catch (e) {
+      throw controller.signal.aborted ? controller.signal.reason : e;
+    } finally {
+      clearTimeout(t);
+    }
+  }
+
+  // robots.txt is read once per origin; a missing or broken file means no delay.
+  function loadRobots(origin: string, h: HostState) {
+    if (!robots) return Promise.resolve();
+    h.robots ??= fetchWithTimeout(`${origin}/robots.txt`, { headers: userAgent ? { "user-agent": userAgent } : {} }, ROBOTS_TIMEOUT_MS)
+      .then((res) => {
+        if (res.ok) h.crawlDelayMs = parseCrawlDelay(res.body.toString("utf8"), robotsAgent);
+      })
+      .catch(() => {});
+    return h.robots;
+  }
+
+  async function request(url: string, init: RequestInit & { headers?: Record<string, string> } = {}): Promise<FetchedResponse> {
+    const u = new URL(url);
+    const h = hostState(u.host);
+    await loadRobots(u.origin, h);
+    const headers = { ...(userAgent ? { "user-agent": userAgent } : {}), ...(init.headers || {}) };
+
+    for (let attempt = 0; ; attempt++) {
+      await acquire(h);
+      stats.requests++;
+      let res: FetchedResponse | null = null;
+      let error: unknown = null;
+      try {
+        res = await fetchWithTimeout(url, { ...init, headers }, timeoutMs);
+      } catch (e) {
+        error = e;
+      } finally {
+        release(h);
+      }
+
+      const retryable = !res || isRetryableStatus(res.status);
+      if (!retryable || attempt >= retries) {
+        if (!res) {
+          stats.failures++;
+          throw error;
+        }
+        if (!res.ok) stats.failures++;
+        return res;
+      }
+      stats.retries++;
+      const backoff = Math.min(maxBackoffMs, backoffMs * 2 ** attempt);
+      const jitter = Math.random() * backoff * 0.2;
+      await wait(Math.min(maxBackoffMs, retryAfterMs(res?.headers) ?? backoff + jitter));
+    }
+  }
+
+  // Minimum gap between request starts to one host (e.g. a site's throttle_ms).
+  function setHostDelay(hostOrUrl: string, ms: number | string | undefined) {
+    const host = /^https?:\/\//i.test(hostOrUrl) ? new URL(hostOrUrl).host : hostOrUrl;
+    const h = hostState(host);
+    h.delayMs = Math.max(h.delayMs, Number(ms) || 0);
+  }
+
+  return { request, setHostDelay, stats };
+}
@@ -0,0 +1,42 @@
+// scripts/ingest/selectors.ts
+// Site configs may give a selector for a detail-page field:
+//   "h1"                                       → text of the first match
+//   "meta[property='og:title']@content"        → attribute of the first match
+//   "h1.entry-title || meta[property='og:title']@content"
+//                                              → fallback chain, first non-empty wins
+// Commas keep their CSS meaning (selector groups); "||" separates fallbacks.
+import type { CheerioAPI } from "cheerio";
+import { collapse } from "./util";
+
+export type SelectorPart = { css: string; attr: string | null };
+
+export function parseSelectorSpec(spec: unknown): SelectorPart[] {
+  if (!spec || typeof spec !== "string") return [];
+  return spec
+    .split("||")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const m = part.match(/^(.*)@([A-Za-z_:][\w:.-]*)$/);
+      // Only treat "@" as the attribute suffix when it's outside [...] groups.
+      if (m && (m[1].match(/\[/g) || []).length === (m[1].match(/\]/g) || []).length) {
+        return { css: m[1].trim(), attr: m[2] };
+      }
+      return { css: part, attr: null };
+    });
+}
+
+export function selectValue($: CheerioAPI, spec: string | null | undefined) {
+  for (const { css, attr } of parseSelectorSpec(spec)) {
+    let el;
+    try {
+      el = $(css).first();
+    } catch {
+      continue; // invalid CSS in config; try the next fallback
+    }
+    if (!el.length) continue;
+    const value = collapse(attr ? el.attr(attr) || "" : el.text());
+    if (value) return value;
+  }
+  return null;
+}
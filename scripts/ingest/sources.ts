@@ -0,0 +1,82 @@
+// scripts/ingest/sources.ts
+// sources.json plus the user's "Manage sources" export.
+import fs from "node:fs/promises";
+import type { Origin, RssSource, SiteConfig } from "./types";
+import { SETTINGS } from "./config";
+import { cleanUrl, isHttpUrl } from "./urls";
+
+export type SourceLists = { rss: string[]; sites: SiteConfig[] };
+
+// Accepts the JSON written by exportUserSourcesJson (src/lib/userSources.ts).
+// Disabled entries and anything without an http(s) URL are dropped.
+export async function loadUserSources({ file, explicit }: { file: string; explicit: boolean }): Promise<SourceLists> {
+  let parsed;
+  try {
+    parsed = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    if (explicit) console.log(`[user sources] could not read ${file}: ${(e && e.message) || e}`);
+    return { rss: [], sites: [] };
+  }
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.rss) || !Array.isArray(parsed.sites)) {
+    console.log(`[user sources] ${file} is not a sources export — ignoring.`);
+    return { rss: [], sites: [] };
+  }
+  const rss: string[] = parsed.rss
+    .filter((r) => r && r.enabled !== false && isHttpUrl(String(r.url || "").trim()))
+    .map((r) => String(r.url).trim());
+  const sites: SiteConfig[] = parsed.sites
+    .filter((s) => s && s.enabled !== false && isHttpUrl(String(s.index || "").trim()))
+    .map((s) => {
+      const index = String(s.index).trim();
+      return {
+        host: s.host || new URL(index).hostname,
+        index,
+        href_selector: s.href_selector,
+        item_selector: s.item_selector,
+        title_selector: s.title_selector,
+        published_selector: s.published_selector,
+        deadline_selector: s.deadline_selector,
+        prize_selector: s.prize_selector,
+        description_selector: s.description_selector,
+        index_limit: s.index_limit ?? SETTINGS.USER_SITE_INDEX_LIMIT,
+        max_pages: s.max_pages,
+        throttle_ms: s.throttle_ms ?? SETTINGS.USER_SITE_THROTTLE_MS,
+        source: s.source,
+      };
+    });
+  console.log(`[user sources] loaded ${file} (${rss.length} RSS, ${sites.length} sites)`);
+  return { rss, sites };
+}
+
+// Repo config wins: user entries whose URL (or site index) is already in
+// sources.json are skipped, as are duplicates within the user list itself.
+export function mergeSources(repo: SourceLists, user: SourceLists) {
+  const rssKeys = new Set<string>();
+  const rss: RssSource[] = [];
+  for (const [list, origin] of [[repo.rss, "repo"], [user.rss, "user"]] as [string[], Origin][]) {
+    for (const url of list) {
+      const key = cleanUrl(url);
+      if (rssKeys.has(key)) {
+        if (origin === "user") console.log(`[user sources] skip duplicate RSS: ${url}`);
+        continue;
+      }
+      rssKeys.add(key);
+      rss.push({ url, origin });
+    }
+  }
+
+  const siteKeys = new Set<string>();
+  const sites: (SiteConfig & { origin: Origin })[] = [];
+  for (const [list, origin] of [[repo.sites, "repo"], [user.sites, "user"]] as [SiteConfig[], Origin][]) {
+    for (const site of list) {
+      const key = site.index ? cleanUrl(site.index) : "";
+      if (key && siteKeys.has(key)) {
+        if (origin === "user") console.log(`[user sources] skip duplicate site: ${site.index}`);
+        continue;
+      }
+      if (key) siteKeys.add(key);
+      sites.push({ ...site, origin });
+    }
+  }
+  return { rss, sites };
+}
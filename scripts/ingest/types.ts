@@ -0,0 +1,53 @@
+// scripts/ingest/types.ts
+// Shapes flowing through the ingestion pipeline. Competitions use the app's
+// own type (src/types.ts), so feeds.json is typed the same on both sides.
+import type { Competition, Origin } from "../../src/types";
+
+export type { ClosedReason, Competition, EntryRequirements, ExpiredCompetition, Origin, RequirementMethod, SeenOn } from "../../src/types";
+
+// A "sites" entry in sources.json (or a user source mapped onto one); the
+// schema and its documentation are in sources.schema.json. site, item_selector,
+// max_items, pageParam and pagination_param are old spellings still read.
+export type SiteConfig = {
+  host?: string;
+  site?: string;
+  index: string;
+  href_selector?: string;
+  item_selector?: string;
+  title_selector?: string;
+  published_selector?: string;
+  deadline_selector?: string;
+  prize_selector?: string;
+  description_selector?: string;
+  deadline_text_regex?: string;
+  index_limit?: number;
+  max_items?: number;
+  max_pages?: number;
+  page_param?: string;
+  pageParam?: string;
+  pagination_param?: string;
+  throttle_ms?: number;
+  source?: string;
+  origin?: Origin;
+};
+
+export type SourcesConfig = {
+  version?: number;
+  categories?: Record<string, string[]>;
+  rss?: string[];
+  sites?: SiteConfig[];
+};
+
+export type RssSource = { url: string; origin: Origin };
+
+export type CrawlError = { url: string; message: string; status?: number };
+
+export type CrawlResult = {
+  label: string;
+  indexed: number;
+  pages: number;
+  skipped: number;
+  items: Competition[];
+  errors: CrawlError[];
+  httpStatus: number | null;
+};
@@ -0,0 +1,48 @@
+// scripts/ingest/urls.test.ts
+import { describe, expect, it } from "vitest";
+import { cleanUrl, fixRssLink } from "./urls";
+
+describe("cleanUrl", () => {
+  it("drops tracking parameters, the hash and a trailing slash", () => {
+    expect(cleanUrl("https://WWW.Example.co.nz/win/?utm_source=fb&utm_medium=social&id=4&fbclid=abc#enter")).toBe(
+      "https://www.example.co.nz/win?id=4"
+    );
+  });
+
+  it("keeps the root path", () => {
+    expect(cleanUrl("https://example.co.nz/")).toBe("https://example.co.nz/");
+  });
+
+  it("drops any utm_ parameter, not just the common ones", () => {
+    expect(cleanUrl("https://example.co.nz/a?utm_id=1&utm_source_platform=x")).toBe("https://example.co.nz/a");
+  });
+
+  it("returns non-URLs unchanged", () => {
+    expect(cleanUrl("not a url")).toBe("not a url");
+    expect(cleanUrl("")).toBe("");
+  });
+});
+
+describe("fixRssLink", () => {
+  const feed = "https://contest.co.nz/syndication.php?fid=2&limit=151";
+
+  it("resolves relative links against the feed", () => {
+    expect(fixRssLink(feed, "/Thread-Win-a-TV")).toBe("https://contest.co.nz/Thread-Win-a-TV");
+    expect(fixRssLink(feed, "./Thread-Win-a-TV")).toBe("https://contest.co.nz/Thread-Win-a-TV");
+  });
+
+  it("rebuilds links whose 'host' is really a file name", () => {
+    expect(fixRssLink(feed, "https://showthread.php?tid=123&pid=4#pid4")).toBe(
+      "https://contest.co.nz/showthread.php?tid=123&pid=4"
+    );
+  });
+
+  it("leaves ordinary absolute links alone", () => {
+    expect(fixRssLink(feed, "https://www.cheapies.nz/node/56851")).toBe("https://www.cheapies.nz/node/56851");
+  });
+
+  it("returns null for an empty link", () => {
+    expect(fixRssLink(feed, "")).toBeNull();
+    expect(fixRssLink(feed, null)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+// scripts/ingest/urls.ts
+// URL clean-up shared by every stage: dedupe keys, source labels, and the
+// odd links some feeds emit.
+
+export function cleanUrl(u: string) {
+  try {
+    const url = new URL(u);
+    url.hash = "";
+    url.hostname = url.hostname.toLowerCase();
+    const drop = new Set([
+      "utm_source","utm_medium","utm_campaign","utm_term","utm_content",
+      "gclid","fbclid","mc_cid","mc_eid","trk","ref","mkt_tok",
+    ]);
+    for (const key of Array.from(url.searchParams.keys())) {
+      if (key.startsWith("utm_") || drop.has(key)) url.searchParams.delete(key);
+    }
+    if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+      url.pathname = url.pathname.slice(0, -1);
+    }
+    return url.toString();
+  } catch {
+    return u || "";
+  }
+}
+
+export function sourceFromLink(link: string) {
+  try {
+    return new URL(link).hostname.replace(/^www\./, "");
+  } catch {
+    return "unknown";
+  }
+}
+
+export function normalizeSourceLabel(source: string | null | undefined, link: string) {
+  const raw = (source || "").toLowerCase().trim();
+  const fromLink = (() => {
+    try {
+      return new URL(link).hostname.toLowerCase().replace(/^www\./, "");
+    } catch {
+      return "";
+    }
+  })();
+  const host = (fromLink || raw).replace(/^www\./, "");
+  if (host.endsWith("contest.co.nz")) return "contest.co.nz";
+  if (host.endsWith("cheapies.nz")) return "cheapies.nz";
+  if (host.endsWith("competitions.co.nz")) return "competitions.co.nz";
+  if (host.endsWith("nzmcd.co.nz")) return "nzmcd.co.nz";
+  if (host.endsWith("nowtolove.co.nz")) return "nowtolove.co.nz";
+  if (host.endsWith("familytimes.co.nz")) return "familytimes.co.nz";
+  if (/\.(html|php)$/i.test(raw)) return host || "unknown";
+  return host || raw || "unknown";
+}
+
+export function isHttpUrl(s: string) {
+  try {
+    const u = new URL(s);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function toAbsolute(baseUrl: string, href: string | undefined | null) {
+  try {
+    if (!href) return null;
+    if (href.startsWith("//")) return "https:" + href;
+    if (href.startsWith("/")) {
+      const u = new URL(baseUrl);
+      return `${u.origin}${href}`;
+    }
+    new URL(href);
+    return href;
+  } catch {
+    return null;
+  }
+}
+
+export function fixRssLink(feedUrl: string, link: string | null | undefined) {
+  if (!link) return null;
+  if (link.startsWith("/") || link.startsWith("./") || link.startsWith("../")) {
+    try {
+      return new URL(link, feedUrl).toString();
+    } catch {
+      return link;
+    }
+  }
+  try {
+    const u = new URL(link);
+    const host = (u.hostname || "").toLowerCase();
+    const hostLooksLikeFile = host.endsWith(".html") || host.endsWith(".php");
+    if (hostLooksLikeFile) {
+      const base = new URL(feedUrl);
+      const rebuilt = new URL(`/${host}${u.pathname === "/" ? "" : u.pathname}`, base.origin);
+      rebuilt.search = u.search;
+      rebuilt.hash = "";
+      return rebuilt.toString();
+    }
+    return link;
+  } catch {
+    try {
+      return new URL(link, feedUrl).toString();
+    } catch {
+      return link;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+// scripts/ingest/util.ts
+import crypto from "node:crypto";
+import { SETTINGS } from "./config";
+
+export function collapse(s = "") {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+export function sha1(s: unknown) {
+  return crypto.createHash("sha1").update(String(s || "")).digest("hex");
+}
+
+export function days(n: number) {
+  return n * 24 * 60 * 60 * 1000;
+}
+
+export function clampFutureISO(iso: string | null | undefined) {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  if (!Number.isFinite(t)) return null;
+  const skew = SETTINGS.FUTURE_CREATEDAT_SKEW_MIN * 60 * 1000;
+  const now = Date.now();
+  return t > now + skew ? new Date(now).toISOString() : new Date(t).toISOString();
+}
@@ -0,0 +1,118 @@
+// scripts/ingest/validate.test.ts
+import fs from "node:fs";
+import path from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { SourcesConfig } from "./types";
+import { ROOT } from "./config";
+import { closestKey, dryRunSources, jsonLocations, validateSources } from "./validate";
+import { loadFixtures, type Fixture } from "../fixtures/harness";
+
+const where = (issues: { line: number; column: number; path: string; severity: string; message: string }[]) =>
+  issues.map((i) => `${i.line}:${i.column} ${i.severity} ${i.path}: ${i.message}`);
+
+describe("validateSources", () => {
+  it("accepts the repo's sources.json without warnings", () => {
+    const { config, issues } = validateSources(fs.readFileSync(path.resolve(ROOT, "sources.json"), "utf8"));
+    expect(issues).toEqual([]);
+    expect(config?.sites?.length).toBeGreaterThan(0);
+  });
+
+  it("reports each problem at its line and column", () => {
+    const text = `{
+  "version": 1,
+  "rss": ["https://a.nz/feed", "ftp://a.nz"],
+  "sites": [
+    {
+      "index": "https://a.nz/win/",
+      "href_selecter": "a",
+      "title_selector": "h1 || h2[",
+      "index_limit": 0,
+      "pageParam": "p"
+    }
+  ]
+}`;
+    const { config, issues } = validateSources(text);
+    expect(config).toBeNull();
+    expect(where(issues)).toEqual([
+      "3:32 error rss[1]: must be an http(s) URL",
+      '7:7 error sites[0].href_selecter: unknown key "href_selecter" — did you mean "href_selector"?',
+      "8:7 error sites[0].title_selector: has an invalid CSS selector \"h2[\" (Expected name, found )",
+      "9:7 error sites[0].index_limit: must be at least 1",
+      '10:7 warning sites[0].pageParam: "pageParam" is an old spelling of "page_param"',
+    ]);
+  });
+
+  it("keeps warnings-only configs usable", () => {
+    const { config, issues } = validateSources('{ "version": 1, "sites": [{ "site": "a.nz", "index": "https://a.nz/" }] }');
+    expect(config?.sites?.[0].site).toBe("a.nz");
+    expect(where(issues)).toEqual(['1:29 warning sites[0].site: "site" is an old spelling of "host"']);
+  });
+
+  it("points syntax errors at the offending character", () => {
+    const { issues } = validateSources('{\n  "version": 1\n  "rss": []\n}');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: "error", line: 3, column: 3 });
+    expect(issues[0].message).not.toMatch(/position/);
+  });
+
+  it("catches what the schema can't: duplicate sites and a host the index isn't on", () => {
+    const text = JSON.stringify({
+      version: 1,
+      sites: [
+        { index: "https://a.nz/win/" },
+        { host: "b.nz", index: "https://a.nz/win" },
+      ],
+    });
+    expect(validateSources(text).issues.map((i) => `${i.severity} ${i.path}`)).toEqual([
+      "warning sites[1].host",
+      "error sites[1].index",
+    ]);
+  });
+});
+
+describe("helpers", () => {
+  it("guesses the intended key", () => {
+    const known = ["href_selector", "index_limit", "throttle_ms", "page_param"];
+    expect(closestKey("hrefSelector", known)).toBe("href_selector");
+    expect(closestKey("throttle", known)).toBe("throttle_ms");
+    expect(closestKey("colour", known)).toBeNull();
+  });
+
+  it("locates nested keys and array items", () => {
+    const locations = jsonLocations('{\n  "a": [1, {"b c": true}]\n}');
+    expect(locations.get("a")).toEqual({ line: 2, column: 3 });
+    expect(locations.get("a[1]")).toEqual({ line: 2, column: 12 });
+    expect(locations.get('a[1]["b c"]')).toEqual({ line: 2, column: 13 });
+  });
+});
+
+describe("dryRunSources", () => {
+  let fixtures: Map<string, Fixture>;
+  beforeAll(async () => {
+    fixtures = await loadFixtures();
+  });
+
+  it("finds links for every configured site", () => {
+    const text = fs.readFileSync(path.resolve(ROOT, "sources.json"), "utf8");
+    const { lines, issues } = dryRunSources(text, JSON.parse(text), fixtures);
+    expect(issues).toEqual([]);
+    expect(lines).toContain("Competitions.co.nz: title_selector → \"Win a Weber Q2200 BBQ\"");
+  });
+
+  it("flags a selector that matches nothing on the recorded page", () => {
+    const config: SourcesConfig = {
+      sites: [
+        { host: "nzmcd.co.nz", index: "https://nzmcd.co.nz/competitions/", href_selector: "a.no-such-class" },
+        { index: "https://www.nowtolove.co.nz/win/competitions/", href_selector: "h2 a", title_selector: "h6" },
+        { index: "https://example.nz/win/" },
+      ],
+    };
+    const text = JSON.stringify(config, null, 2);
+    const { issues } = dryRunSources(text, config, fixtures);
+    expect(issues.map((i) => `${i.severity} ${i.path}: ${i.message}`)).toEqual([
+      "error sites[0].href_selector: matches nothing on competitions.html",
+      "warning sites[1].title_selector: finds nothing on win-competitions-win-a-luxury-spa-retreat-worth-3500.html",
+      "warning sites[2].index: no recorded page for https://example.nz/win/ — run npm run fixtures:record -- --only example.nz",
+    ]);
+  });
+});
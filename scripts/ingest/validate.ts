@@ -0,0 +1,403 @@
+// scripts/ingest/validate.ts
+// Checks sources.json against sources.schema.json and reports each problem at
+// its line and column. The schema is the single description of the config:
+// this walks the subset of JSON Schema it uses, plus two extensions —
+// "x-alias-of" on the old key spellings, and the formats "css-selector",
+// "field-selector" and "regex", which are checked by actually compiling them.
+//
+// The dry run replays each site's recorded index page (scripts/fixtures/) and
+// reports how many links its selector picks up, then tries the detail-page
+// selectors on the first recorded detail page.
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import * as cheerio from "cheerio";
+import type { SiteConfig, SourcesConfig } from "./types";
+import { indexLinks, siteHost } from "./crawl";
+import { parseSelectorSpec, selectValue } from "./selectors";
+import { isHttpUrl } from "./urls";
+import { collapse } from "./util";
+import type { Fixture } from "../fixtures/harness";
+
+type Schema = {
+  $ref?: string;
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  minItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  format?: string;
+  deprecated?: boolean;
+  "x-alias-of"?: string;
+  $defs?: Record<string, Schema>;
+};
+
+export const SOURCES_SCHEMA: Schema = JSON.parse(
+  fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "..", "sources.schema.json"), "utf8")
+);
+
+export type Issue = { severity: "error" | "warning"; path: string; message: string };
+
+export type LocatedIssue = Issue & { line: number; column: number };
+
+// "sites[2].href_selector"
+function childPath(parent: string, key: string | number) {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${parent}[${JSON.stringify(key)}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+type Location = { line: number; column: number };
+
+function lineStarts(text: string) {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+  return starts;
+}
+
+function toLocation(starts: number[], offset: number): Location {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - starts[lo] + 1 };
+}
+
+// Where every value in an already-parsed JSON text starts; object members
+// point at their key.
+export function jsonLocations(text: string) {
+  const starts = lineStarts(text);
+  const locations = new Map<string, Location>();
+  let i = 0;
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = () => {
+    const start = i++;
+    while (text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    i++;
+    return JSON.parse(text.slice(start, i)) as string;
+  };
+  const readValue = (at: string) => {
+    skipSpace();
+    if (!locations.has(at)) locations.set(at, toLocation(starts, i));
+    const c = text[i];
+    if (c === "{" || c === "[") {
+      const close = c === "{" ? "}" : "]";
+      i++;
+      skipSpace();
+      for (let n = 0; text[i] !== close; n++) {
+        if (c === "{") {
+          const keyAt = toLocation(starts, i);
+          const child = childPath(at, readString());
+          locations.set(child, keyAt);
+          skipSpace();
+          i++; // :
+          readValue(child);
+        } else {
+          readValue(childPath(at, n));
+        }
+        skipSpace();
+        if (text[i] === ",") i++;
+        skipSpace();
+      }
+      i++;
+    } else if (c === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+    }
+  };
+  readValue("");
+  return locations;
+}
+
+function editDistance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const up = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = up;
+    }
+  }
+  return row[b.length];
+}
+
+// The known key an unknown one was probably meant to be.
+export function closestKey(key: string, known: string[]) {
+  const norm = (k: string) => k.toLowerCase().replace(/[^a-z0-9]/g, "");
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const d = editDistance(norm(key), norm(candidate));
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : null;
+}
+
+function cssProblem(css: string) {
+  try {
+    cheerio.load("")(css);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+function formatProblem(format: string, value: string) {
+  switch (format) {
+    case "uri":
+      return isHttpUrl(value) ? null : "must be an http(s) URL";
+    case "regex":
+      try {
+        new RegExp(value, "i");
+        return null;
+      } catch (e) {
+        return `is not a valid regular expression (${(e as Error).message})`;
+      }
+    case "css-selector": {
+      const problem = cssProblem(value);
+      return problem && `is not a valid CSS selector (${problem})`;
+    }
+    case "field-selector": {
+      const parts = parseSelectorSpec(value);
+      if (!parts.length) return "has no selector";
+      for (const { css } of parts) {
+        const problem = cssProblem(css);
+        if (problem) return `has an invalid CSS selector "${css}" (${problem})`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+function typeOf(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function resolve(schema: Schema, root: Schema): Schema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace(/^#\/\$defs\//, "");
+  const target = root.$defs?.[name];
+  if (!target) throw new Error(`sources.schema.json: unknown $ref ${schema.$ref}`);
+  const { $ref, ...rest } = schema;
+  return { ...resolve(target, root), ...rest };
+}
+
+// Issues for `value` against `schema`, without locations.
+export function checkSchema(value: unknown, schema: Schema, at = "", root = schema): Issue[] {
+  const s = resolve(schema, root);
+  const issues: Issue[] = [];
+  const error = (message: string, where = at) => issues.push({ severity: "error", path: where, message });
+
+  if ("const" in s && value !== s.const) return [{ severity: "error", path: at, message: `must be ${JSON.stringify(s.const)}` }];
+  if (s.enum && !s.enum.includes(value)) {
+    return [{ severity: "error", path: at, message: `must be one of ${s.enum.map((v) => JSON.stringify(v)).join(", ")}` }];
+  }
+  if (s.type) {
+    const actual = typeOf(value);
+    const ok = actual === s.type || (s.type === "number" && actual === "integer");
+    if (!ok) return [{ severity: "error", path: at, message: `must be ${s.type === "integer" ? "a whole number" : `a ${s.type}`}, got ${actual}` }];
+  }
+
+  if (typeof value === "string") {
+    if (s.minLength != null && value.length < s.minLength) error(s.minLength === 1 ? "must not be empty" : `must be at least ${s.minLength} characters`);
+    else if (s.pattern && !new RegExp(s.pattern).test(value)) error(`must match ${s.pattern}`);
+    else if (s.format) {
+      const problem = formatProblem(s.format, value);
+      if (problem) error(problem);
+    }
+  }
+  if (typeof value === "number" && s.minimum != null && value < s.minimum) error(`must be at least ${s.minimum}`);
+
+  if (Array.isArray(value)) {
+    if (s.minItems != null && value.length < s.minItems) error(`must have at least ${s.minItems} item(s)`);
+    if (s.uniqueItems) {
+      const seen = new Map<string, number>();
+      value.forEach((v, i) => {
+        const key = JSON.stringify(v);
+        if (seen.has(key)) error(`duplicates item ${seen.get(key)}`, childPath(at, i));
+        else seen.set(key, i);
+      });
+    }
+    if (s.items) value.forEach((v, i) => issues.push(...checkSchema(v, s.items!, childPath(at, i), root)));
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    const props = s.properties || {};
+    for (const key of s.required || []) {
+      const aliased = Object.entries(props).some(([k, p]) => p["x-alias-of"] === key && k in obj);
+      if (!(key in obj) && !aliased) error(`missing required key "${key}"`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const where = childPath(at, key);
+      const prop = props[key];
+      if (prop) {
+        const canonical = prop["x-alias-of"];
+        if (canonical && canonical in obj) error(`"${key}" and "${canonical}" are the same setting; keep "${canonical}"`, where);
+        else if (canonical) issues.push({ severity: "warning", path: where, message: `"${key}" is an old spelling of "${canonical}"` });
+        issues.push(...checkSchema(v, prop, where, root));
+      } else if (s.additionalProperties === false) {
+        const guess = closestKey(key, Object.keys(props));
+        const meant = guess && (props[guess]["x-alias-of"] || guess);
+        error(`unknown key "${key}"${meant ? ` — did you mean "${meant}"?` : ""}`, where);
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        issues.push(...checkSchema(v, s.additionalProperties, where, root));
+      }
+    }
+  }
+  return issues;
+}
+
+// Things the schema can't say: duplicate sites and a host that the index
+// page itself isn't on (every link would be filtered out).
+function crossChecks(config: SourcesConfig): Issue[] {
+  const issues: Issue[] = [];
+  const seen = new Map<string, number>();
+  (config.sites || []).forEach((site, i) => {
+    if (!site || typeof site.index !== "string" || !isHttpUrl(site.index)) return;
+    const at = childPath("sites", i);
+    const index = site.index.replace(/\/+$/, "");
+    if (seen.has(index)) issues.push({ severity: "error", path: childPath(at, "index"), message: `same index page as sites[${seen.get(index)}]` });
+    else seen.set(index, i);
+    const host = typeof site.host === "string" || typeof site.site === "string" ? siteHost(site) : "";
+    const indexHost = new URL(site.index).hostname.replace(/^www\./, "");
+    if (host && host !== indexHost) {
+      issues.push({
+        severity: "warning",
+        path: childPath(at, site.host != null ? "host" : "site"),
+        message: `index page is on ${indexHost}, so links to ${host} are the only ones followed`,
+      });
+    }
+  });
+  return issues;
+}
+
+function locate(issues: Issue[], locations: Map<string, Location>): LocatedIssue[] {
+  return issues.map((issue) => {
+    // Fall back to the nearest enclosing value that has a location.
+    let at = issue.path;
+    while (at && !locations.has(at)) at = at.replace(/(\.[^.[]+|\[[^\]]+\])$/, "");
+    return { ...issue, ...(locations.get(at) || { line: 1, column: 1 }) };
+  });
+}
+
+// Parses and checks sources.json text. `config` is null when there are errors.
+export function validateSources(text: string, schema = SOURCES_SCHEMA) {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const message = (e as Error).message;
+    const offset = Number(message.match(/position (\d+)/)?.[1] ?? 0);
+    const issue: LocatedIssue = {
+      severity: "error",
+      path: "",
+      message: message.replace(/ in JSON at position \d+.*$/, ""),
+      ...toLocation(lineStarts(text), offset),
+    };
+    return { config: null, issues: [issue] };
+  }
+  const issues = checkSchema(json, schema);
+  if (!issues.some((i) => i.severity === "error")) issues.push(...crossChecks(json as SourcesConfig));
+  const located = locate(issues, jsonLocations(text)).sort((a, b) => a.line - b.line || a.column - b.column);
+  const ok = !located.some((i) => i.severity === "error");
+  return { config: ok ? (json as SourcesConfig) : null, issues: located };
+}
+
+export function formatIssue(file: string, { severity, path: at, message, line, column }: LocatedIssue) {
+  return `${file}:${line}:${column} ${severity}${at ? ` ${at}` : ""}: ${message}`;
+}
+
+const FIELD_SELECTORS = ["title_selector", "published_selector", "deadline_selector", "prize_selector", "description_selector"] as const;
+
+function fixtureBody(fixtures: Map<string, Fixture>, url: string) {
+  const fixture = fixtures.get(url);
+  if (!fixture?.file) return null;
+  return { file: fixture.file, html: fs.readFileSync(path.join(fixture.dir, fixture.file), "utf8") };
+}
+
+// One site against its recorded pages: a line per finding plus issues for
+// anything that would make the crawl come back empty or incomplete.
+export function dryRunSite(site: SiteConfig, i: number, fixtures: Map<string, Fixture>) {
+  const at = childPath("sites", i);
+  const label = site.source || siteHost(site) || site.index;
+  const lines: string[] = [];
+  const issues: Issue[] = [];
+
+  const index = fixtureBody(fixtures, site.index);
+  if (!index) {
+    issues.push({
+      severity: "warning",
+      path: childPath(at, "index"),
+      message: `no recorded page for ${site.index} — run npm run fixtures:record -- --only ${new URL(site.index).hostname}`,
+    });
+    return { lines: [`${label}: no fixture`], issues };
+  }
+
+  const selectorKey = site.href_selector ? "href_selector" : site.item_selector ? "item_selector" : null;
+  const { matched, fallback, links } = indexLinks(cheerio.load(index.html), site.index, site);
+  const unique = Array.from(new Set(links));
+  if (selectorKey && fallback) {
+    issues.push({ severity: "error", path: childPath(at, selectorKey), message: `matches nothing on ${index.file}` });
+  } else if (!unique.length) {
+    issues.push({ severity: "error", path: childPath(at, selectorKey || "index"), message: `finds no links to follow on ${index.file}` });
+  }
+  const how = selectorKey && !fallback ? `${selectorKey} matches ${matched} element(s)` : `fallback matches ${matched} link(s)`;
+  lines.push(`${label}: ${how} → ${unique.length} link(s) to follow on ${index.file}`);
+
+  const detailUrl = unique.find((u) => fixtureBody(fixtures, u));
+  const wanted = FIELD_SELECTORS.filter((key) => site[key]);
+  if (!detailUrl) {
+    if (wanted.length || site.deadline_text_regex) lines.push(`${label}: no recorded detail page to try field selectors on`);
+    return { lines, issues };
+  }
+  const detail = fixtureBody(fixtures, detailUrl)!;
+  const $ = cheerio.load(detail.html);
+  for (const key of wanted) {
+    const value = selectValue($, site[key]);
+    if (value) lines.push(`${label}: ${key} → ${JSON.stringify(value.slice(0, 60))}`);
+    else issues.push({ severity: "warning", path: childPath(at, key), message: `finds nothing on ${detail.file}` });
+  }
+  if (site.deadline_text_regex) {
+    const text = collapse($("main").text() || $("article").text() || $("body").text() || "");
+    const m = text.match(new RegExp(site.deadline_text_regex, "i"));
+    if (m) lines.push(`${label}: deadline_text_regex → ${JSON.stringify(m[1] ?? m[0])}`);
+    else issues.push({ severity: "warning", path: childPath(at, "deadline_text_regex"), message: `finds nothing on ${detail.file}` });
+  }
+  return { lines, issues };
+}
+
+// Dry-runs every site and places the issues in the config text.
+export function dryRunSources(text: string, config: SourcesConfig, fixtures: Map<string, Fixture>) {
+  const lines: string[] = [];
+  const issues: Issue[] = [];
+  (config.sites || []).forEach((site, i) => {
+    const result = dryRunSite(site, i, fixtures);
+    lines.push(...result.lines);
+    issues.push(...result.issues);
+  });
+  return { lines, issues: locate(issues, jsonLocations(text)) };
+}
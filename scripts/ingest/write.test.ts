@@ -0,0 +1,76 @@
+// scripts/ingest/write.test.ts
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Competition, ExpiredCompetition } from "./types";
+import { feedCalendar, readExpired, readFeeds, writeExpired, writeFeeds } from "./write";
+
+const base = {
+  id: "https://contest.co.nz/Thread-Win-a-TV",
+  title: "Win a TV",
+  link: "https://contest.co.nz/Thread-Win-a-TV",
+  source: "contest.co.nz",
+  origin: "repo",
+  createdAt: "2026-08-20T00:00:00.000Z",
+  tags: [],
+};
+
+const now = Date.parse("2026-08-23T00:00:00.000Z");
+
+describe("feeds.json round trip", () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "feeds-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes newest first and reads the same items back", async () => {
+    const file = path.join(dir, "feeds.json");
+    const older = { ...base, id: "a", createdAt: "2026-08-01T00:00:00.000Z" } as Competition;
+    const newer = { ...base, id: "b", deadline: "2026-09-01T11:59:00.000Z" } as Competition;
+    await writeFeeds([older, newer], file);
+    expect((await readFeeds(file)).map((c) => c.id)).toEqual(["b", "a"]);
+  });
+
+  it("writes expired.json most recently closed first", async () => {
+    const file = path.join(dir, "expired.json");
+    const closed = (id: string, closedAt: string) => ({ ...base, id, status: "closed", closedAt, closedReason: "deadline" }) as ExpiredCompetition;
+    const unclosed = { ...closed("c", "2026-08-10T11:59:00.000Z"), closedAt: "" };
+    await writeExpired([closed("a", "2026-08-01T11:59:00.000Z"), closed("b", "2026-08-20T11:59:00.000Z"), unclosed], file);
+    expect((await readExpired(file)).map((c) => c.id)).toEqual(["b", "a"]);
+    expect(await readExpired(path.join(dir, "missing.json"))).toEqual([]);
+  });
+
+  it("drops and logs items the app would reject", async () => {
+    const file = path.join(dir, "bad.json");
+    const bad = { ...base, id: "bad", title: "" } as Competition;
+    const good = { ...base, createdAt: "2026-08-01T00:00:00.000Z" } as Competition;
+    const log = vi.mocked(console.log);
+    log.mockClear();
+    expect((await writeFeeds([bad, good], file)).map((c) => c.id)).toEqual([base.id]);
+    expect(log).toHaveBeenCalledWith("[feeds.json] dropped #0 (bad): title must be a non-empty string");
+    expect((await readFeeds(file)).map((c) => c.id)).toEqual([base.id]);
+  });
+});
+
+describe("feedCalendar", () => {
+  it("lists open deadlines only, stamped with when each item appeared", () => {
+    const item = (id: string, deadline?: string): Competition => ({
+      id,
+      title: `Win ${id}`,
+      link: `https://contest.co.nz/${id}`,
+      source: "contest.co.nz",
+      createdAt: "2026-08-01T00:00:00.000Z",
+      deadline,
+    });
+    const { text, count } = feedCalendar([item("open", "2026-09-01T11:59:00.000Z"), item("past", "2026-08-01T11:59:00.000Z"), item("undated")], now);
+    expect(count).toBe(1);
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(feedCalendar([item("open", "2026-09-01T11:59:00.000Z")], now + 1000).text).toBe(text);
+  });
+});
@@ -0,0 +1,128 @@
+// scripts/ingest/write.ts
+// Reading and writing public/feeds.json, public/expired.json and
+// public/ingestion.json, and the optional public/deadlines.ics. Both sides of
+// feeds.json and expired.json go through the app's own check
+// (src/lib/feedSchema.ts): the previous file is read the way the app reads
+// it, and items the app would reject are logged and left out of the new one.
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Competition, ExpiredCompetition } from "./types";
+import type { IngestionReport } from "./health";
+import { ROOT } from "./config";
+import { parseExpired, parseFeed, type FeedProblem } from "../../src/lib/feedSchema";
+import { isGuessedDeadline } from "../../src/lib/dates";
+import { toICalendar } from "../../src/lib/ical";
+
+export const FEEDS_PATH = path.resolve(ROOT, "public", "feeds.json");
+export const EXPIRED_PATH = path.resolve(ROOT, "public", "expired.json");
+export const REPORT_PATH = path.resolve(ROOT, "public", "ingestion.json");
+
+function describe(problems: FeedProblem[]) {
+  const shown = problems.slice(0, 5).map((p) => `#${p.index}${p.id ? ` (${p.id})` : ""}: ${p.problem}`);
+  const more = problems.length > shown.length ? `; …and ${problems.length - shown.length} more` : "";
+  return shown.join("; ") + more;
+}
+
+// Items from the previous run; invalid entries are dropped with a warning.
+export async function readFeeds(file = FEEDS_PATH): Promise<Competition[]> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    console.log("[accumulate] no existing feeds.json — starting fresh");
+    return [];
+  }
+  try {
+    const { items, problems } = parseFeed(json);
+    if (problems.length) console.log(`[accumulate] dropped ${problems.length} invalid item(s): ${describe(problems)}`);
+    console.log(`[accumulate] loaded ${items.length} existing items`);
+    return items;
+  } catch (e) {
+    console.log(`[accumulate] ${(e as Error).message} — starting fresh`);
+    return [];
+  }
+}
+
+// One line per item the schema rejected on the way out.
+function logDropped(name: string, problems: FeedProblem[]) {
+  for (const p of problems) console.log(`[${name}] dropped #${p.index}${p.id ? ` (${p.id})` : ""}: ${p.problem}`);
+}
+
+// Newest first. Items that fail the schema are dropped, so one bad item
+// doesn't cost the run its report.
+export async function writeFeeds(items: Competition[], file = FEEDS_PATH) {
+  const sorted = [...items].sort((a, b) => (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0));
+  const { items: checked, problems } = parseFeed(JSON.parse(JSON.stringify(sorted)));
+  logDropped("feeds.json", problems);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(checked, null, 2), "utf8");
+  console.log(`Wrote ${path.relative(ROOT, file)} with ${checked.length} item(s)`);
+  return checked;
+}
+
+export async function readExpired(file = EXPIRED_PATH): Promise<ExpiredCompetition[]> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return []; // first run
+  }
+  try {
+    const { items, problems } = parseExpired(json);
+    if (problems.length) console.log(`[expired] dropped ${problems.length} invalid item(s): ${describe(problems)}`);
+    return items;
+  } catch (e) {
+    console.log(`[expired] ${(e as Error).message} — starting fresh`);
+    return [];
+  }
+}
+
+// Most recently closed first; invalid items are dropped like in writeFeeds.
+export async function writeExpired(items: ExpiredCompetition[], file = EXPIRED_PATH) {
+  const sorted = [...items].sort((a, b) => (Date.parse(b.closedAt) || 0) - (Date.parse(a.closedAt) || 0));
+  const { items: checked, problems } = parseExpired(JSON.parse(JSON.stringify(sorted)));
+  logDropped("expired.json", problems);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(checked, null, 2), "utf8");
+  console.log(`Wrote ${path.relative(ROOT, file)} with ${checked.length} item(s)`);
+  return checked;
+}
+
+// Open items with a deadline. Each event is stamped with its item's createdAt
+// so the file only changes when the feed does.
+export function feedCalendar(items: Competition[], now = Date.now()) {
+  const events = items
+    .filter((c) => c.deadline && Date.parse(c.deadline) >= now)
+    .map((c) => ({
+      id: c.id,
+      title: c.title,
+      deadline: c.deadline!,
+      link: c.link,
+      source: c.source,
+      prize: c.prize,
+      guessed: isGuessedDeadline(c),
+      stamp: c.createdAt,
+    }));
+  return { text: toICalendar(events, { name: "Parlay — NZ competition deadlines", now }), count: events.length };
+}
+
+export async function writeCalendar(items: Competition[], file: string) {
+  const { text, count } = feedCalendar(items);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, text, "utf8");
+  console.log(`Wrote ${path.relative(ROOT, file)} with ${count} deadline(s)`);
+}
+
+export async function readReport(file = REPORT_PATH): Promise<IngestionReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return null; // first run
+  }
+}
+
+export async function writeReport(report: IngestionReport, file = REPORT_PATH) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(report, null, 2), "utf8");
+  console.log(`Wrote ${path.relative(ROOT, file)}`);
+}
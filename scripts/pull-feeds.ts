@@ -0,0 +1,184 @@
+// scripts/pull-feeds.ts
+// Fetch → Parse → Normalize → Resolve entry links → Dedupe → Filter → Write, plus per-run health in public/ingestion.json
+// Items the filter drops are archived in public/expired.json with the date they closed.
+// The stages live in scripts/ingest/; this file wires them together.
+//
+// Usage: npm run pull:feeds -- [--user-sources <file>] [--http-cache <file> | --no-http-cache] [--ics [file]]
+// User sources are a "Manage sources" export (UserSourcesV1). When no flag is
+// given we look at $PARLAY_USER_SOURCES, then ./user-sources.json.
+// The HTTP cache defaults to $PARLAY_HTTP_CACHE, then ./.cache/http-cache.json.
+// --ics (or $PARLAY_ICS) also writes the open deadlines as an iCalendar file,
+// public/deadlines.ics unless a path is given.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Competition, SourcesConfig } from "./ingest/types";
+import { ROOT, SETTINGS, httpCachePathFromArgs, icsPathFromArgs, userSourcesPathFromArgs } from "./ingest/config";
+import { compileCategories, enrichItem } from "./ingest/categories";
+import { crawlSite } from "./ingest/crawl";
+import { dedupe } from "./ingest/dedupe";
+import { httpCache, lastStatus, loadHttpCache, saveHttpCache, scheduler } from "./ingest/fetch";
+import { mergeExpired, partitionFresh } from "./ingest/filter";
+import { historyEntry, measure, sourceHealth, type IngestionReport, type SourceHealth } from "./ingest/health";
+import { resolveEntryUrls } from "./ingest/links";
+import { normalizeItem } from "./ingest/normalize";
+import { parseRSSFeed } from "./ingest/rss";
+import { loadUserSources, mergeSources } from "./ingest/sources";
+import { cleanUrl } from "./ingest/urls";
+import { formatIssue, validateSources } from "./ingest/validate";
+import { readExpired, readFeeds, readReport, writeCalendar, writeExpired, writeFeeds, writeReport } from "./ingest/write";
+
+async function main() {
+  console.log("Pull started…");
+
+  let text: string;
+  try {
+    text = await fs.readFile(path.resolve(ROOT, "sources.json"), "utf8");
+  } catch {
+    console.log("[sources.json] not found — exiting.");
+    process.exit(1);
+  }
+  const { config, issues } = validateSources(text);
+  for (const issue of issues) console.log(formatIssue("sources.json", issue));
+  if (!config) {
+    console.log("[sources.json] invalid — exiting. Check it with npm run validate:sources.");
+    process.exit(1);
+  }
+  const sources: SourcesConfig = config;
+
+  const repoSources = {
+    rss: Array.isArray(sources.rss) ? sources.rss : [],
+    sites: Array.isArray(sources.sites) ? sources.sites : [],
+  };
+  console.log(`[sources.json] loaded (${repoSources.rss.length} RSS, ${repoSources.sites.length} sites)`);
+
+  const argv = process.argv.slice(2);
+  await loadHttpCache(httpCachePathFromArgs(argv));
+  const userSources = await loadUserSources(userSourcesPathFromArgs(argv));
+  const { rss, sites } = mergeSources(repoSources, userSources);
+
+  const startedAt = new Date().toISOString();
+  const rssStats: Record<string, SourceHealth> = {};
+  const siteStats: Record<string, SourceHealth> = {};
+
+  const previousReport = await readReport();
+  const prevSource = (kind: "rss" | "sites", key: string) => previousReport?.sources?.[kind]?.[key];
+
+  // Links already in feeds.json (cross-posts included), so the crawl can skip
+  // recently parsed pages whose items we still have.
+  const existingItems = await readFeeds();
+  const knownLinks = new Set(
+    existingItems.flatMap((it) => [it.link, ...(it.alsoSeenOn || []).map((s) => s.link)]).filter(Boolean).map(cleanUrl)
+  );
+
+  // Feeds and sites run side by side; results are collected in config order.
+  const [rssRuns, siteRuns] = await Promise.all([
+    Promise.all(rss.map((r) => measure(() => parseRSSFeed(r.url, r.origin)))),
+    Promise.all(sites.map((s) => measure(() => crawlSite(s, knownLinks)))),
+  ]);
+
+  const rssResults: Competition[] = [];
+  rss.forEach((r, i) => {
+    const { result, error, durationMs } = rssRuns[i];
+    if (error) console.log(`Failed feed: ${r.url} ${(error && error.message) || error}`);
+    const items = result || [];
+    rssResults.push(...items);
+    rssStats[r.url] = sourceHealth(
+      {
+        kind: "rss",
+        origin: r.origin,
+        items: items.length,
+        error: error ? (error.message || String(error)) : null,
+        httpStatus: lastStatus.get(r.url),
+        durationMs,
+      },
+      prevSource("rss", r.url),
+      startedAt
+    );
+  });
+
+  const siteResults: Competition[] = [];
+  sites.forEach((s, i) => {
+    const { result, error, durationMs } = siteRuns[i];
+    const label = result?.label || s.source || s.index;
+    const items = result?.items || [];
+    siteResults.push(...items);
+    siteStats[label] = sourceHealth(
+      {
+        kind: "site",
+        origin: s.origin,
+        items: items.length,
+        skipped: result?.skipped,
+        error: error ? (error.message || String(error)) : null,
+        errors: result?.errors,
+        httpStatus: result?.httpStatus,
+        durationMs,
+        extra: { indexed: result?.indexed ?? 0, pages: result?.pages ?? 0, skipped: result?.skipped ?? 0 },
+      },
+      prevSource("sites", label),
+      startedAt
+    );
+  });
+
+  const raw = [...rssResults, ...siteResults];
+  const normalized = raw.map(normalizeItem);
+  const combined = await resolveEntryUrls([...existingItems, ...normalized]);
+  const categories = compileCategories(sources.categories);
+  const deduped = dedupe(combined).map((it) => enrichItem(it, categories));
+  const { kept: filtered, closed } = partitionFresh(deduped, startedAt);
+  const expired = mergeExpired(await readExpired(), closed, filtered);
+
+  console.log(
+    `Totals: raw=${raw.length}, normalized=${normalized.length}, existing=${existingItems.length}, combined=${combined.length}, deduped=${deduped.length}, kept=${filtered.length}, closed=${closed.length}`
+  );
+
+  const perSource: Record<string, number> = {};
+  for (const it of filtered) {
+    const key = it.source || "unknown";
+    perSource[key] = (perSource[key] || 0) + 1;
+  }
+
+  const written = await writeFeeds(filtered);
+  await writeExpired(expired);
+  const icsPath = icsPathFromArgs(argv);
+  if (icsPath) await writeCalendar(written, icsPath);
+
+  const finishedAt = new Date().toISOString();
+  const health: IngestionReport = {
+    startedAt,
+    finishedAt,
+    pulledAtIso: finishedAt,
+    durationMs: Date.parse(finishedAt) - Date.parse(startedAt),
+    counts: {
+      raw: raw.length,
+      normalized: normalized.length,
+      deduped: deduped.length,
+      kept: filtered.length,
+      closed: closed.length,
+      expired: expired.length,
+    },
+    httpCache: { ...httpCache.stats },
+    requests: { ...scheduler.stats },
+    sources: {
+      rssCount: Object.keys(rssStats).length,
+      siteCount: Object.keys(siteStats).length,
+      userRssCount: rss.filter((r) => r.origin === "user").length,
+      userSiteCount: sites.filter((x) => x.origin === "user").length,
+      rss: rssStats,
+      sites: siteStats,
+    },
+    perSource,
+  };
+  const history = Array.isArray(previousReport?.history) ? previousReport.history : [];
+  health.history = [historyEntry(health), ...history].slice(0, SETTINGS.HEALTH_HISTORY_RUNS);
+  const broken = Object.entries({ ...rssStats, ...siteStats }).filter(([, x]) => x.status === "error" || x.status === "silent");
+  for (const [key, x] of broken) console.log(`[health] ${x.status}: ${key}${x.errors[0] ? ` — ${x.errors[0]}` : ""}`);
+  await writeReport(health);
+
+  await saveHttpCache();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+// scripts/validate-sources.ts
+// Checks sources.json against sources.schema.json: wrong types, unknown keys
+// (with a guess at the intended one), old key spellings, and selectors or
+// regexes that don't compile. Every problem is reported as file:line:column.
+//
+// Usage: npm run validate:sources -- [file] [--dry-run]
+// --dry-run also runs each site's selectors against its recorded pages in
+// scripts/fixtures/ and reports how many links they pick up.
+// Exits 1 if there are errors; warnings alone pass.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ROOT } from "./ingest/config";
+import { dryRunSources, formatIssue, validateSources, type LocatedIssue } from "./ingest/validate";
+import { loadFixtures } from "./fixtures/harness";
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const dryRun = argv.includes("--dry-run");
+  const name = argv.find((a) => !a.startsWith("--")) || "sources.json";
+  const file = path.resolve(ROOT, name);
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (e) {
+    console.error(`${name}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+
+  const { config, issues } = validateSources(text);
+  const all: LocatedIssue[] = [...issues];
+  if (config && dryRun) {
+    const { lines, issues: found } = dryRunSources(text, config, await loadFixtures());
+    for (const line of lines) console.log(`[dry-run] ${line}`);
+    all.push(...found);
+  }
+
+  for (const issue of all) console.log(formatIssue(name, issue));
+  const errors = all.filter((i) => i.severity === "error").length;
+  const warnings = all.length - errors;
+  console.log(`${name}: ${errors} error(s), ${warnings} warning(s)${config && !dryRun ? " (add --dry-run to try the selectors)" : ""}`);
+  if (errors) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
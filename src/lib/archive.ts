@@ -1,88 +1,42 @@
 // src/lib/archive.ts
-// Lightweight localStorage archive of user's interactions with competitions.
+// User's interactions with competitions (saved/entered/notes/outcome).
+// Backed by the shared user state repository in ./userState.
 
-export type ArchiveOutcome = "unknown" | "won" | "lost";
+import {
+  getUserState,
+  isUserStateReady,
+  updateUserState,
+  type ArchiveItem,
+  type ArchiveOutcome,
+  type DeliveryStatus,
+  type EntryFrequency,
+  type EntryLogEntry,
+  type EntryMethod,
+  type UserStateV4,
+  type WinDetails,
+} from "./userState";
+import { isClosingWithin, toMs } from "./dates";
 
-export type ArchiveItem = {
-  id: string;
-  title: string;
-  source?: string | null;
-  link?: string | null;
-  createdAt?: string | null; // helps mark Active/Expired when a matching feed item exists
-  saved?: boolean;
-  entered?: boolean;
-  notes?: string;
-  outcome?: ArchiveOutcome;
-  archivedAtIso: string;
-};
+export type { ArchiveItem, ArchiveOutcome, DeliveryStatus, EntryFrequency, EntryLogEntry, EntryMethod, WinDetails };
 
-type ArchiveState = {
-  version: 1;
-  items: Record<string, ArchiveItem>;
-};
-
-const KEY = "parlay:archive:v1";
-
-function init(): ArchiveState {
-  const raw = localStorage.getItem(KEY);
-  if (!raw) {
-    const empty: ArchiveState = { version: 1, items: {} };
-    localStorage.setItem(KEY, JSON.stringify(empty));
-    return empty;
-  }
-  try {
-    const parsed = JSON.parse(raw);
-    if (parsed && parsed.version === 1 && parsed.items) return parsed as ArchiveState;
-  } catch {}
-  const empty: ArchiveState = { version: 1, items: {} };
-  localStorage.setItem(KEY, JSON.stringify(empty));
-  return empty;
-}
-
-function save(state: ArchiveState) {
-  localStorage.setItem(KEY, JSON.stringify(state));
-}
-
-export function readArchive(): ArchiveItem[] {
-  const s = init();
-  return Object.values(s.items).sort((a, b) => {
+export function sortArchive(items: Record<string, ArchiveItem>): ArchiveItem[] {
+  return Object.values(items).sort((a, b) => {
     const ta = Date.parse(a.archivedAtIso);
     const tb = Date.parse(b.archivedAtIso);
     return (tb || 0) - (ta || 0);
   });
 }
 
-export function exportArchive(): Blob {
-  const s = init();
-  return new Blob([JSON.stringify(s, null, 2)], { type: "application/json" });
-}
-
-export async function importArchive(file: File): Promise<void> {
-  const text = await file.text();
-  const parsed = JSON.parse(text);
-  if (!parsed?.items) throw new Error("Invalid archive file");
-  save({ version: 1, items: parsed.items });
-}
-
-function upsert(mut: (s: ArchiveState) => void) {
-  const s = init();
-  mut(s);
-  save(s);
+export function readArchive(): ArchiveItem[] {
+  return sortArchive(getUserState().items);
 }
 
-// Sync presence from the current feed to help label Active/Expired in History.
-// Pass an array of { id, createdAt } for items currently in the feed.
-export function archiveSyncPresence(feed: Array<{ id: string; createdAt?: string | null }>) {
-  const present = new Map(feed.map((x) => [x.id, x.createdAt ?? null]));
-  upsert((s) => {
-    for (const [id, item] of Object.entries(s.items)) {
-      const seen = present.get(id);
-      if (seen !== undefined) {
-        s.items[id] = { ...item, createdAt: seen };
-      } else {
-        // keep whatever createdAt we already stored; it's fine to leave as-is
-      }
-    }
+// `mut` edits a copy of the items and returns whether it changed anything;
+// when it didn't, nothing is written or broadcast.
+function upsert(mut: (items: Record<string, ArchiveItem>) => boolean) {
+  updateUserState((s: UserStateV4) => {
+    const items = { ...s.items };
+    return mut(items) ? { ...s, items } : s;
   });
 }
 
@@ -91,9 +45,84 @@ type BaseComp = {
   title: string;
   source?: string | null;
   link?: string | null;
+  deadline?: string | null;
+  prize?: string | null;
+  prizeValue?: number | null;
+  tags?: string[] | null;
   createdAt?: string | null;
+  mergedIds?: string[] | null;
 };
 
+// Copy what the item says about itself onto the archive entry; fields it
+// doesn't state keep their stored value.
+function snapshot(cur: ArchiveItem, base: BaseComp): ArchiveItem {
+  return {
+    ...cur,
+    title: cur.title || base.title,
+    source: base.source ?? cur.source ?? null,
+    link: base.link ?? cur.link ?? null,
+    deadline: base.deadline ?? cur.deadline ?? null,
+    prize: base.prize ?? cur.prize ?? null,
+    prizeValue: base.prizeValue ?? cur.prizeValue ?? null,
+    tags: base.tags ?? cur.tags,
+  };
+}
+
+const SYNCED: (keyof ArchiveItem)[] = ["title", "source", "link", "deadline", "prize", "prizeValue", "createdAt", "closedAt"];
+const sameTags = (a?: string[], b?: string[]) => (a ?? []).join("\n") === (b ?? []).join("\n");
+
+// Sync presence and the deadline/prize/link snapshot from the current feed and
+// public/expired.json, so History can tell open items from closed ones. An
+// item back in the feed is open again; one in neither keeps what we stored.
+// Entries kept under the id of a duplicate the pipeline has since folded away
+// follow the item it was folded into.
+export function archiveSyncPresence(feed: BaseComp[], expired: Array<BaseComp & { closedAt: string }> = []) {
+  const index = <T extends BaseComp>(list: T[]) =>
+    new Map(list.flatMap((x) => [...(x.mergedIds ?? []), x.id].map((id) => [id, x] as const)));
+  const present = index(feed);
+  const closed = index(expired);
+  const next = (item: ArchiveItem): ArchiveItem | null => {
+    const live = present.get(item.id);
+    const gone = closed.get(item.id);
+    let updated: ArchiveItem;
+    if (live) updated = { ...snapshot(item, live), createdAt: live.createdAt ?? null, closedAt: null };
+    else if (gone) updated = { ...snapshot(item, gone), createdAt: item.createdAt ?? gone.createdAt ?? null, closedAt: gone.closedAt };
+    else return null;
+    const same = SYNCED.every((key) => (updated[key] ?? null) === (item[key] ?? null)) && sameTags(updated.tags, item.tags);
+    return same ? null : updated;
+  };
+  const outdated = Object.values(getUserState().items).filter((item) => next(item));
+  if (!outdated.length) return;
+  upsert((items) => {
+    let changed = false;
+    for (const item of outdated) {
+      const cur = items[item.id];
+      const updated = cur && next(cur);
+      if (updated) {
+        items[item.id] = updated;
+        changed = true;
+      }
+    }
+    return changed;
+  });
+}
+
+// Entries migrated from the old flags store only know their id; fill in the
+// rest once the item is seen in the feed.
+export function fillFromFeed(feed: BaseComp[]) {
+  const byId = new Map(feed.map((c) => [c.id, c]));
+  const state = getUserState();
+  const missing = Object.values(state.items).filter((i) => !i.title && byId.has(i.id));
+  if (!missing.length) return;
+  upsert((items) => {
+    for (const item of missing) {
+      const c = byId.get(item.id)!;
+      items[item.id] = { ...snapshot(item, c), createdAt: c.createdAt ?? null };
+    }
+    return true;
+  });
+}
+
 function ensureItem(base: BaseComp): ArchiveItem {
   const now = new Date().toISOString();
   return {
@@ -101,6 +130,10 @@ function ensureItem(base: BaseComp): ArchiveItem {
     title: base.title,
     source: base.source ?? null,
     link: base.link ?? null,
+    deadline: base.deadline ?? null,
+    prize: base.prize ?? null,
+    prizeValue: base.prizeValue ?? null,
+    tags: base.tags ?? undefined,
     createdAt: base.createdAt ?? null,
     saved: false,
     entered: false,
@@ -111,37 +144,170 @@ function ensureItem(base: BaseComp): ArchiveItem {
 }
 
 export function markSaved(base: BaseComp, next: boolean) {
-  upsert((s) => {
-    const cur = s.items[base.id] ?? ensureItem(base);
-    s.items[base.id] = { ...cur, saved: next, archivedAtIso: new Date().toISOString() };
+  upsert((items) => {
+    const cur = items[base.id] ?? ensureItem(base);
+    const now = new Date().toISOString();
+    items[base.id] = { ...snapshot(cur, base), saved: next, savedAtIso: next ? now : cur.savedAtIso, archivedAtIso: now };
+    return true;
+  });
+}
+
+// Used by "save" rules; skips anything the user has already touched so an
+// item they un-saved doesn't get saved again on the next load.
+export function autoSave(bases: BaseComp[]) {
+  // Until the stored state is loaded we can't tell what the user has touched.
+  if (!isUserStateReady()) return;
+  const known = getUserState().items;
+  const fresh = bases.filter((b) => !known[b.id]);
+  if (!fresh.length) return;
+  upsert((items) => {
+    const now = new Date().toISOString();
+    for (const base of fresh) items[base.id] = { ...ensureItem(base), saved: true, savedAtIso: now };
+    return true;
   });
 }
 
+// Turning "entered" on logs a first entry; turning it off clears the log.
 export function markEntered(base: BaseComp, next: boolean) {
-  upsert((s) => {
-    const cur = s.items[base.id] ?? ensureItem(base);
-    s.items[base.id] = { ...cur, entered: next, archivedAtIso: new Date().toISOString() };
+  upsert((items) => {
+    const cur = items[base.id] ?? ensureItem(base);
+    const now = new Date().toISOString();
+    const entries = next ? (cur.entries?.length ? cur.entries : [{ atIso: now }]) : [];
+    items[base.id] = { ...snapshot(cur, base), entered: next, entries, archivedAtIso: now };
+    return true;
+  });
+}
+
+// Record another submission (daily/weekly re-entry).
+export function logEntry(base: BaseComp, entry: { method?: EntryMethod; note?: string } = {}) {
+  upsert((items) => {
+    const cur = items[base.id] ?? ensureItem(base);
+    const now = new Date().toISOString();
+    const logged: EntryLogEntry = { atIso: now };
+    if (entry.method) logged.method = entry.method;
+    if (entry.note?.trim()) logged.note = entry.note.trim();
+    items[base.id] = {
+      ...snapshot(cur, base),
+      entered: true,
+      entries: [...(cur.entries ?? []), logged],
+      archivedAtIso: now,
+    };
+    return true;
+  });
+}
+
+export function removeEntry(id: string, atIso: string) {
+  upsert((items) => {
+    const cur = items[id];
+    if (!cur) return false;
+    const entries = (cur.entries ?? []).filter((e) => e.atIso !== atIso);
+    if (entries.length === (cur.entries ?? []).length) return false;
+    items[id] = { ...cur, entries, entered: entries.length > 0 };
+    return true;
   });
 }
 
+export function setFrequency(base: BaseComp, frequency: EntryFrequency) {
+  upsert((items) => {
+    const cur = items[base.id] ?? ensureItem(base);
+    items[base.id] = { ...snapshot(cur, base), frequency };
+    return true;
+  });
+}
+
+export type EntryStatus = {
+  count: number;
+  frequency: EntryFrequency;
+  lastIso: string | null;
+  // True when the competition allows re-entry and the current period is open.
+  dueAgain: boolean;
+};
+
+function localDay(d: Date) {
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+}
+
+export function entryStatus(item: ArchiveItem | undefined, now = new Date()): EntryStatus {
+  const frequency = item?.frequency ?? "once";
+  const entries = item?.entries ?? [];
+  const count = entries.length;
+  const lastIso = count ? entries[count - 1].atIso : null;
+  let dueAgain = false;
+  if (count > 0 && lastIso && frequency !== "once") {
+    const last = new Date(lastIso);
+    if (frequency === "daily") dueAgain = localDay(last) !== localDay(now);
+    if (frequency === "weekly") dueAgain = now.getTime() - last.getTime() >= 7 * 24 * 60 * 60 * 1000;
+  }
+  return { count, frequency, lastIso, dueAgain };
+}
+
+// Where an archived competition stands. "drawn" means the user has recorded a
+// result; "closed" comes from expired.json, a past deadline, or (with no
+// deadline to go on) dropping out of the feed. `inFeed` is undefined until the
+// feed has loaded.
+export type ArchiveStatus = "active" | "closing" | "closed" | "drawn";
+
+export const CLOSING_SOON_DAYS = 3;
+
+export function archiveStatus(item: ArchiveItem, inFeed?: boolean, now = Date.now()): ArchiveStatus {
+  if (item.outcome === "won" || item.outcome === "lost") return "drawn";
+  const deadlineMs = toMs(item.deadline);
+  if (item.closedAt || (deadlineMs !== null && deadlineMs < now)) return "closed";
+  if (isClosingWithin(item.deadline, CLOSING_SOON_DAYS, now)) return "closing";
+  if (inFeed === false && deadlineMs === null) return "closed";
+  return "active";
+}
+
 export function setNotes(id: string, notes: string) {
-  upsert((s) => {
-    const cur = s.items[id];
-    if (!cur) return;
-    s.items[id] = { ...cur, notes, archivedAtIso: new Date().toISOString() };
+  upsert((items) => {
+    const cur = items[id];
+    if (!cur) return false;
+    items[id] = { ...cur, notes, archivedAtIso: new Date().toISOString() };
+    return true;
   });
 }
 
 export function setOutcome(id: string, outcome: ArchiveOutcome) {
-  upsert((s) => {
-    const cur = s.items[id];
-    if (!cur) return;
-    s.items[id] = { ...cur, outcome, archivedAtIso: new Date().toISOString() };
+  upsert((items) => {
+    const cur = items[id];
+    if (!cur) return false;
+    const now = new Date().toISOString();
+    items[id] = {
+      ...cur,
+      outcome,
+      outcomeAtIso: outcome === "unknown" ? undefined : now,
+      win: outcome === "won" ? cur.win ?? { delivery: "to-claim" } : undefined,
+      archivedAtIso: now,
+    };
+    return true;
+  });
+}
+
+// Merge into the win record; empty fields are removed.
+export function setWinDetails(id: string, patch: WinDetails) {
+  upsert((items) => {
+    const cur = items[id];
+    if (!cur || cur.outcome !== "won") return false;
+    const win: Record<string, unknown> = { ...cur.win, ...patch };
+    for (const [key, value] of Object.entries(win)) {
+      if (value === undefined || value === "" || (typeof value === "number" && !Number.isFinite(value))) delete win[key];
+    }
+    items[id] = { ...cur, win: win as WinDetails };
+    return true;
   });
 }
 
+export const DELIVERY_LABELS: Record<DeliveryStatus, string> = {
+  "to-claim": "To claim",
+  claimed: "Claimed",
+  shipped: "On its way",
+  received: "Received",
+};
+
 export function remove(id: string) {
-  upsert((s) => {
-    delete s.items[id];
+  upsert((items) => {
+    if (!items[id]) return false;
+    delete items[id];
+    return true;
   });
 }
@@ -0,0 +1,29 @@
+// src/lib/dates.ts
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toMs(iso?: string | null): number | null {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  return Number.isFinite(t) ? t : null;
+}
+
+// Whole days until `iso`, rounded up (so "later today" is 1, just gone is 0).
+export function daysUntil(iso?: string | null, now = Date.now()): number | null {
+  const t = toMs(iso);
+  if (t === null) return null;
+  return Math.ceil((t - now) / DAY_MS);
+}
+
+// Below this the pipeline's date parser was guessing (no year, a weekday, "in
+// 5 days"); the card says so. Older items have no confidence and aren't marked.
+export const LOW_DEADLINE_CONFIDENCE = 0.7;
+
+export function isGuessedDeadline(item: { deadline?: string; deadlineConfidence?: number }): boolean {
+  return !!item.deadline && item.deadlineConfidence != null && item.deadlineConfidence < LOW_DEADLINE_CONFIDENCE;
+}
+
+export function isClosingWithin(iso: string | null | undefined, days: number, now = Date.now()): boolean {
+  const t = toMs(iso);
+  return t !== null && t >= now && t - now <= days * DAY_MS;
+}
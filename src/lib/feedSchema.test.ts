@@ -0,0 +1,61 @@
+// src/lib/feedSchema.test.ts
+import { describe, expect, it } from "vitest";
+import { parseExpired, parseFeed } from "./feedSchema";
+
+const base = {
+  id: "https://contest.co.nz/Thread-Win-a-TV",
+  title: "Win a TV",
+  link: "https://contest.co.nz/Thread-Win-a-TV",
+  source: "contest.co.nz",
+  origin: "repo",
+  createdAt: "2026-08-20T00:00:00.000Z",
+  tags: [],
+};
+
+describe("parseFeed", () => {
+  it("reads legacy null fields as absent", () => {
+    const { items, problems } = parseFeed([{ ...base, deadline: null, prize: null, requirements: { minAge: 18, region: null } }]);
+    expect(problems).toEqual([]);
+    expect(items[0]).not.toHaveProperty("deadline");
+    expect(items[0]).not.toHaveProperty("prize");
+    expect(items[0].requirements).toEqual({ minAge: 18 });
+  });
+
+  it("reports invalid items and keeps the rest", () => {
+    const { items, problems } = parseFeed([
+      base,
+      { ...base, id: "b", deadline: "next Friday" },
+      { ...base, id: "c", createdAt: null },
+      { ...base, id: "d", requirements: { methods: ["carrier pigeon"] } },
+      "not an item",
+    ]);
+    expect(items).toHaveLength(1);
+    expect(problems).toEqual([
+      { index: 1, id: "b", problem: "deadline must be an ISO date" },
+      { index: 2, id: "c", problem: "createdAt must be an ISO date" },
+      { index: 3, id: "d", problem: "requirements.methods must list form/email/social/purchase/receipt" },
+      { index: 4, id: undefined, problem: "not an object" },
+    ]);
+  });
+
+  it("rejects a file that isn't a list", () => {
+    expect(() => parseFeed({ items: [] })).toThrow("not a list");
+  });
+});
+
+describe("parseExpired", () => {
+  it("needs a closed status, date and reason on top of the item", () => {
+    const { items, problems } = parseExpired([
+      { ...base, status: "closed", closedAt: "2026-08-21T11:59:00.000Z", closedReason: "deadline" },
+      { ...base, id: "b", status: "open", closedAt: "2026-08-21T11:59:00.000Z", closedReason: "deadline" },
+      { ...base, id: "c", status: "closed", closedReason: "age" },
+      { ...base, id: "d", title: "", status: "closed", closedAt: "2026-08-21T11:59:00.000Z", closedReason: "age" },
+    ]);
+    expect(items.map((c) => c.id)).toEqual([base.id]);
+    expect(problems.map((p) => p.problem)).toEqual([
+      'status must be "closed"',
+      "closedAt must be an ISO date",
+      "title must be a non-empty string",
+    ]);
+  });
+});
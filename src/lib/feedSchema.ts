@@ -0,0 +1,124 @@
+// src/lib/feedSchema.ts
+// Runtime check for public/feeds.json against the Competition type. The
+// ingestion script runs every item through this before writing the file and
+// the app runs it again on load, so neither side can drift from ../types.
+// Older files wrote `null` for unknown optional fields; that reads as absent.
+// public/expired.json is the same items plus when and why they closed.
+import type { Competition, EntryRequirements, ExpiredCompetition, SeenOn } from "../types";
+
+const METHODS = new Set(["form", "email", "social", "purchase", "receipt"]);
+const LIMITS = new Set(["person", "household", "day", "week"]);
+
+export type FeedProblem = { index: number; id?: string; problem: string };
+
+function isText(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function isIsoDate(v: unknown): v is string {
+  return typeof v === "string" && Number.isFinite(Date.parse(v));
+}
+
+function requirementsProblem(r: unknown): string | null {
+  if (!r || typeof r !== "object" || Array.isArray(r)) return "must be an object";
+  const req = r as Record<string, unknown>;
+  if (req.methods != null && !(Array.isArray(req.methods) && req.methods.every((m) => METHODS.has(m as string)))) {
+    return "methods must list form/email/social/purchase/receipt";
+  }
+  if (req.minAge != null && !(typeof req.minAge === "number" && Number.isInteger(req.minAge))) return "minAge must be a whole number";
+  if (req.region != null && !isText(req.region)) return "region must be a string";
+  if (req.limit != null && !LIMITS.has(req.limit as string)) return "limit must be person/household/day/week";
+  return null;
+}
+
+// Why `raw` isn't a Competition, or null when it is.
+export function competitionProblem(raw: unknown): string | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "not an object";
+  const c = raw as Record<string, unknown>;
+  for (const key of ["id", "title", "link", "source"]) {
+    if (!isText(c[key])) return `${key} must be a non-empty string`;
+  }
+  if (!isIsoDate(c.createdAt)) return "createdAt must be an ISO date";
+
+  if (c.origin != null && c.origin !== "repo" && c.origin !== "user") return 'origin must be "repo" or "user"';
+  for (const key of ["prize", "description", "entryUrl", "outboundUrl"]) {
+    if (c[key] != null && typeof c[key] !== "string") return `${key} must be a string`;
+  }
+  if (c.deadline != null && !isIsoDate(c.deadline)) return "deadline must be an ISO date";
+  if (c.deadlineConfidence != null && !(typeof c.deadlineConfidence === "number" && c.deadlineConfidence >= 0 && c.deadlineConfidence <= 1)) {
+    return "deadlineConfidence must be a number from 0 to 1";
+  }
+  if (c.prizeValue != null && !(typeof c.prizeValue === "number" && Number.isFinite(c.prizeValue))) {
+    return "prizeValue must be a number";
+  }
+  if (c.tags != null && !(Array.isArray(c.tags) && c.tags.every((t) => typeof t === "string"))) {
+    return "tags must be a list of strings";
+  }
+  if (c.requirements != null) {
+    const problem = requirementsProblem(c.requirements);
+    if (problem) return `requirements.${problem}`;
+  }
+  if (c.alsoSeenOn != null) {
+    const ok = Array.isArray(c.alsoSeenOn) && c.alsoSeenOn.every((s) => s && isText(s.source) && isText(s.link));
+    if (!ok) return "alsoSeenOn must be a list of { source, link }";
+  }
+  if (c.mergedIds != null && !(Array.isArray(c.mergedIds) && c.mergedIds.every(isText))) {
+    return "mergedIds must be a list of ids";
+  }
+  return null;
+}
+
+// A checked item with null/absent optional fields left out.
+export function readCompetition(raw: Record<string, unknown>): Competition {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value != null) out[key] = value;
+  }
+  if (out.requirements) {
+    const req: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(out.requirements as EntryRequirements)) {
+      if (value != null) req[key] = value;
+    }
+    out.requirements = req;
+  }
+  if (out.alsoSeenOn) {
+    out.alsoSeenOn = (out.alsoSeenOn as SeenOn[]).map(({ source, link }) => ({ source, link }));
+  }
+  return out as Competition;
+}
+
+export function expiredProblem(raw: unknown): string | null {
+  const problem = competitionProblem(raw);
+  if (problem) return problem;
+  const c = raw as Record<string, unknown>;
+  if (c.status !== "closed") return 'status must be "closed"';
+  if (!isIsoDate(c.closedAt)) return "closedAt must be an ISO date";
+  if (c.closedReason !== "deadline" && c.closedReason !== "age") return 'closedReason must be "deadline" or "age"';
+  return null;
+}
+
+function parseList<T>(json: unknown, file: string, problemOf: (raw: unknown) => string | null) {
+  if (!Array.isArray(json)) throw new Error(`${file} is not a list of competitions`);
+  const items: T[] = [];
+  const problems: FeedProblem[] = [];
+  json.forEach((raw, index) => {
+    const problem = problemOf(raw);
+    if (problem) {
+      const id = raw && typeof raw.id === "string" ? raw.id : undefined;
+      problems.push({ index, id, problem });
+    } else {
+      items.push(readCompetition(raw) as T);
+    }
+  });
+  return { items, problems };
+}
+
+// Valid items plus what was wrong with the rest; throws only when the file
+// isn't a list at all.
+export function parseFeed(json: unknown): { items: Competition[]; problems: FeedProblem[] } {
+  return parseList<Competition>(json, "feeds.json", competitionProblem);
+}
+
+export function parseExpired(json: unknown): { items: ExpiredCompetition[]; problems: FeedProblem[] } {
+  return parseList<ExpiredCompetition>(json, "expired.json", expiredProblem);
+}
@@ -0,0 +1,126 @@
+// src/lib/health.ts
+// Shape of public/ingestion.json plus helpers for the Health page. The
+// pipeline (scripts/ingest/health.ts) writes IngestionReport as defined here;
+// the app reads it as a StoredReport, since reports from before per-source
+// status only carry item counts.
+import type { Origin } from "../types";
+
+export type SourceStatus = "ok" | "empty" | "silent" | "error";
+
+export type SourceHealth = {
+  kind: "rss" | "site";
+  origin: Origin;
+  status: SourceStatus;
+  items: number;
+  indexed?: number;
+  pages?: number;
+  skipped?: number;
+  httpStatus: number | null;
+  durationMs: number;
+  errors: string[];
+  // Consecutive runs (including this one) that produced nothing.
+  silentRuns: number;
+  lastOkAt: string | null;
+};
+
+export type HealthRun = {
+  finishedAt: string;
+  durationMs: number;
+  kept: number;
+  sources: Record<string, Pick<SourceHealth, "status" | "items" | "httpStatus" | "durationMs">>;
+};
+
+export type IngestionReport = {
+  startedAt: string;
+  finishedAt: string;
+  pulledAtIso: string;
+  durationMs: number;
+  // closed: items that left feeds.json this run; expired: the size of expired.json.
+  counts: { raw: number; normalized: number; deduped: number; kept: number; closed: number; expired: number };
+  httpCache: { fetched: number; notModified: number; skipped: number };
+  requests: { requests: number; retries: number; failures: number };
+  sources: {
+    rssCount: number;
+    siteCount: number;
+    userRssCount: number;
+    userSiteCount: number;
+    rss: Record<string, SourceHealth>;
+    sites: Record<string, SourceHealth>;
+  };
+  perSource: Record<string, number>;
+  history?: HealthRun[];
+};
+
+// As read back by the app: every field past `items` may be missing.
+export type StoredSourceHealth = Partial<SourceHealth> & Pick<SourceHealth, "items">;
+
+export type StoredHealthRun = Pick<HealthRun, "finishedAt"> &
+  Partial<Omit<HealthRun, "finishedAt" | "sources">> & {
+    sources: Record<string, Pick<SourceHealth, "status" | "items"> & Partial<HealthRun["sources"][string]>>;
+  };
+
+export type StoredReport = Partial<Omit<IngestionReport, "counts" | "httpCache" | "requests" | "sources" | "history">> & {
+  counts?: Partial<IngestionReport["counts"]>;
+  httpCache?: Partial<IngestionReport["httpCache"]>;
+  requests?: Partial<IngestionReport["requests"]>;
+  sources?: { rss?: Record<string, StoredSourceHealth>; sites?: Record<string, StoredSourceHealth> };
+  history?: StoredHealthRun[];
+};
+
+export type SourceRow = {
+  key: string;
+  label: string;
+  kind: "rss" | "site";
+  status: SourceStatus;
+  health: StoredSourceHealth;
+  // Oldest → newest, null where the source wasn't part of that run.
+  runs: (SourceStatus | null)[];
+};
+
+export function statusOf(s: StoredSourceHealth): SourceStatus {
+  return s.status ?? (s.items > 0 ? "ok" : "empty");
+}
+
+export function isBroken(status: SourceStatus) {
+  return status === "error" || status === "silent";
+}
+
+// "https://contest.co.nz/syndication.php?fid=2&limit=151" → "contest.co.nz · fid=2"
+function feedLabel(url: string) {
+  try {
+    const u = new URL(url);
+    const host = u.hostname.replace(/^www\./, "");
+    const fid = u.searchParams.get("fid");
+    return fid ? `${host} · fid=${fid}` : `${host}${u.pathname === "/" ? "" : u.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+const ORDER: Record<SourceStatus, number> = { error: 0, silent: 1, empty: 2, ok: 3 };
+
+// Broken sources first, then by label.
+export function sourceRows(report: StoredReport | null): SourceRow[] {
+  if (!report?.sources) return [];
+  const history = (report.history ?? []).slice().reverse();
+  const rows: SourceRow[] = [];
+  const add = (kind: "rss" | "site", entries: Record<string, StoredSourceHealth> = {}) => {
+    for (const [key, health] of Object.entries(entries)) {
+      rows.push({
+        key,
+        label: kind === "rss" ? feedLabel(key) : key,
+        kind,
+        status: statusOf(health),
+        health,
+        runs: history.map((run) => run.sources[key]?.status ?? null),
+      });
+    }
+  };
+  add("rss", report.sources.rss);
+  add("site", report.sources.sites);
+  return rows.sort((a, b) => ORDER[a.status] - ORDER[b.status] || a.label.localeCompare(b.label));
+}
+
+export function brokenCount(report: StoredReport | null) {
+  return sourceRows(report).filter((r) => isBroken(r.status)).length;
+}
@@ -0,0 +1,58 @@
+// src/lib/ical.test.ts
+import { describe, expect, it } from "vitest";
+import { eventUid, foldLine, toICalendar } from "./ical";
+
+const now = Date.parse("2026-08-23T00:00:00.000Z");
+
+const event = {
+  id: "https://contest.co.nz/Thread-Win-a-TV",
+  title: "Win a TV, sound bar; remote",
+  link: "https://contest.co.nz/Thread-Win-a-TV",
+  prize: "55\" TV",
+  notes: "Entered with the family email\nCheck spam folder",
+  stamp: "2026-08-20T00:00:00.000Z",
+};
+
+const unfold = (text: string) => text.replace(/\r\n /g, "").split("\r\n");
+
+describe("toICalendar", () => {
+  it("makes end-of-day deadlines all-day events on the NZ date", () => {
+    const lines = unfold(toICalendar([{ ...event, deadline: "2026-08-31T11:59:00.000Z" }], { now }));
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260831");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260901");
+    expect(lines).toContain("DTSTAMP:20260820T000000Z");
+  });
+
+  it("keeps a stated time as a timed event", () => {
+    const lines = unfold(toICalendar([{ ...event, deadline: "2026-08-31T05:00:00.000Z" }], { now }));
+    expect(lines).toContain("DTSTART:20260831T050000Z");
+    expect(lines.filter((l) => l.startsWith("DTSTART"))).toHaveLength(1);
+    // RFC 5545 wants DTEND after DTSTART; an instant just leaves it out.
+    expect(lines.filter((l) => l.startsWith("DTEND"))).toEqual([]);
+    expect(unfold(toICalendar([{ ...event, deadline: "2026-08-31T05:00:00.000Z" }], { now, mode: "all-day" }))).toContain(
+      "DTSTART;VALUE=DATE:20260831"
+    );
+  });
+
+  it("escapes text and carries the link and notes", () => {
+    const lines = unfold(toICalendar([{ ...event, deadline: "2026-08-31T11:59:00.000Z" }], { now }));
+    expect(lines).toContain("SUMMARY:Closes: Win a TV\\, sound bar\\; remote");
+    expect(lines).toContain(
+      `DESCRIPTION:Prize: 55" TV\\nNotes: Entered with the family email\\nCheck spam folder\\n${event.link}`
+    );
+    expect(lines).toContain(`URL:${event.link}`);
+  });
+
+  it("gives an item the same UID on every export", () => {
+    const uid = eventUid(event.id);
+    expect(uid).toMatch(/^[0-9a-f]{16}@parlay$/);
+    expect(eventUid(event.id)).toBe(uid);
+    expect(eventUid(`${event.id}2`)).not.toBe(uid);
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const folded = foldLine(`SUMMARY:${"é".repeat(60)}`);
+    for (const line of folded.split("\r\n")) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+});
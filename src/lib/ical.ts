@@ -0,0 +1,147 @@
+// src/lib/ical.ts
+// iCalendar (RFC 5545) output for competition deadlines. Used by the History
+// export in the app and by scripts/pull-feeds.ts --ics for public/deadlines.ics.
+// UIDs come from the competition id, so importing or subscribing again
+// updates events instead of adding duplicates.
+
+// "auto" makes an all-day event when the deadline is the end of an NZ day
+// (which is also what the pipeline assumes when no time is given) and a
+// timed one otherwise. Timed events have no DTEND: a deadline is a moment.
+export type CalendarMode = "auto" | "all-day" | "timed";
+
+export type DeadlineEvent = {
+  id: string;
+  title: string;
+  deadline: string;
+  link?: string | null;
+  source?: string | null;
+  prize?: string | null;
+  notes?: string | null;
+  guessed?: boolean;
+  // DTSTAMP; defaults to the time of export. The published file passes a
+  // stable value so it only changes when the items do.
+  stamp?: string | null;
+};
+
+const NZ_PARTS = new Intl.DateTimeFormat("en-NZ", {
+  timeZone: "Pacific/Auckland",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+function nzParts(ms: number) {
+  const parts: Record<string, string> = {};
+  for (const p of NZ_PARTS.formatToParts(new Date(ms))) parts[p.type] = p.value;
+  return parts;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function utcStamp(ms: number) {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+// The NZ calendar day of `ms` and the day after, as YYYYMMDD.
+function nzDay(ms: number): [string, string] {
+  const p = nzParts(ms);
+  const next = new Date(Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day) + 1));
+  return [`${p.year}${p.month}${p.day}`, `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`];
+}
+
+export function isEndOfNzDay(ms: number) {
+  const p = nzParts(ms);
+  return p.hour === "23" && p.minute === "59";
+}
+
+// FNV-1a, twice with different offsets, for a short id that's the same on
+// every export.
+export function eventUid(id: string) {
+  const hash = (seed: number) => {
+    let h = seed;
+    for (let i = 0; i < id.length; i++) {
+      h ^= id.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, "0");
+  };
+  return `${hash(0x811c9dc5)}${hash(0x050c5d1f)}@parlay`;
+}
+
+export function escapeText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines that
+// start with a space. Never splits a UTF-8 character.
+export function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = out.length ? 74 : 75;
+    if (octets + size > limit) {
+      out.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+function eventLines(e: DeadlineEvent, mode: CalendarMode, nowMs: number): string[] {
+  const ms = Date.parse(e.deadline);
+  const allDay = mode === "all-day" || (mode === "auto" && isEndOfNzDay(ms));
+  const [day, nextDay] = nzDay(ms);
+  const description = [
+    e.prize ? `Prize: ${e.prize}` : "",
+    e.source ? `Source: ${e.source}` : "",
+    e.guessed ? "The closing date is a guess; check the listing." : "",
+    e.notes?.trim() ? `Notes: ${e.notes.trim()}` : "",
+    e.link ?? "",
+  ].filter(Boolean);
+  const stamp = Date.parse(e.stamp ?? "");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(e.id)}`,
+    `DTSTAMP:${utcStamp(Number.isFinite(stamp) ? stamp : nowMs)}`,
+    ...(allDay ? [`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${nextDay}`] : [`DTSTART:${utcStamp(ms)}`]),
+    `SUMMARY:${escapeText(`Closes: ${e.title}`)}`,
+    ...(description.length ? [`DESCRIPTION:${escapeText(description.join("\n"))}`] : []),
+    ...(e.link ? [`URL:${e.link}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+// A whole VCALENDAR, CRLF line endings. Events without a valid deadline are
+// left out; the rest are sorted by deadline.
+export function toICalendar(
+  events: DeadlineEvent[],
+  { name = "Parlay deadlines", mode = "auto", now = Date.now() }: { name?: string; mode?: CalendarMode; now?: number } = {}
+) {
+  const valid = events
+    .filter((e) => Number.isFinite(Date.parse(e.deadline)))
+    .sort((a, b) => Date.parse(a.deadline) - Date.parse(b.deadline) || a.id.localeCompare(b.id));
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Parlay//Competition deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "X-WR-TIMEZONE:Pacific/Auckland",
+    ...valid.flatMap((e) => eventLines(e, mode, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,83 @@
+// src/lib/query.test.ts
+import { describe, expect, it } from "vitest";
+import { matchesQuery, parseQuery, type QueryTarget } from "./query";
+
+// Midnight 23 August in Auckland (NZST, UTC+12).
+const now = Date.parse("2026-08-23T00:00:00+12:00");
+
+const lego: QueryTarget = {
+  title: "Win a LEGO prize pack",
+  source: "familytimes.co.nz",
+  tags: ["kids"],
+  prize: "valued at $180",
+  deadline: "2026-08-31T23:59:00+12:00",
+};
+
+describe("parseQuery", () => {
+  it.each([
+    ["lego", [{ field: "text", value: "lego", negate: false }]],
+    ['-"Prize Pack"', [{ field: "text", value: "prize pack", negate: true }]],
+    ['source:"family times"', [{ field: "source", value: "family times", negate: false }]],
+    ["-tag:Kids", [{ field: "tag", value: "kids", negate: true }]],
+    ["prize:>=2k", [{ field: "prize", op: ">=", amount: 2000, negate: false }]],
+    ["prize:$1,500", [{ field: "prize", op: "=", amount: 1500, negate: false }]],
+    ["closes:<7d", [{ field: "closes", op: "<", day: null, withinMs: 7 * 86400_000, negate: false }]],
+    ["https://familytimes.co.nz/win", [{ field: "text", value: "https://familytimes.co.nz/win", negate: false }]],
+  ])("%s", (input, terms) => {
+    expect(parseQuery(input)).toEqual({ terms, errors: [] });
+  });
+
+  it.each([
+    ["lego foo:bar", { message: 'Unknown field "foo:" (try source:, tag:, prize:, closes:)', start: 5, end: 12 }],
+    ["tag:", { message: '"tag:" needs a value', start: 0, end: 4 }],
+    ["prize:>lots", { message: '"lots" isn\'t an amount (e.g. prize:>500 or prize:>=2k)', start: 0, end: 11 }],
+    ["closes:<soon", { message: '"soon" isn\'t a duration or date (e.g. closes:<7d or closes:<2026-03-01)', start: 0, end: 12 }],
+    ["closes:2026-02-30", { message: '"2026-02-30" isn\'t a duration or date (e.g. closes:<7d or closes:<2026-03-01)', start: 0, end: 17 }],
+    ['lego "gift card', { message: "Missing closing quote", start: 5, end: 15 }],
+  ])("%s reports an error", (input, error) => {
+    expect(parseQuery(input).errors).toEqual([error]);
+  });
+});
+
+describe("matchesQuery", () => {
+  it.each([
+    ["lego", true],
+    ["-lego", false],
+    ['"prize pack"', true],
+    ['"pack prize"', false],
+    ["source:familytimes", true],
+    ["-source:familytimes", false],
+    ["tag:kids", true],
+    ["tag:kid", false],
+    ["prize:180", true],
+    ["prize:>180", false],
+    ["prize:>=180", true],
+    ["prize:<180", false],
+    ["prize:<=180", true],
+    ["prize:<1k", true],
+    ["closes:<7d", false],
+    ["closes:<9d", true],
+    ["closes:>=1w", true],
+    ["closes:2026-08-31", true],
+    ["closes:=2026-08-31", true],
+    ["closes:=2026-08-30", false],
+    ["closes:<2026-08-31", false],
+    ["closes:<=2026-08-31", true],
+    ["closes:>2026-08-30", true],
+    ["closes:>2026-08-31", false],
+    ["closes:>=2026-08-31", true],
+    ["closes:<2026-09-01", true],
+    ["-closes:2026-08-31", false],
+    ["lego tag:kids prize:>100", true],
+    ["lego tag:travel", false],
+  ])("%s → %s", (input, expected) => {
+    expect(matchesQuery(parseQuery(input), lego, now)).toBe(expected);
+  });
+
+  it("never matches deadline terms on an item without a deadline, or one already closed", () => {
+    const closed = { ...lego, deadline: "2026-08-20T23:59:00+12:00" };
+    expect(matchesQuery(parseQuery("closes:<7d"), closed, now)).toBe(false);
+    expect(matchesQuery(parseQuery("closes:<2026-09-01"), { ...lego, deadline: null }, now)).toBe(false);
+    expect(matchesQuery(parseQuery("-closes:<2026-09-01"), { ...lego, deadline: null }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+// src/lib/query.ts
+// Search syntax shared by the feed and History:
+//   lego                 free text (title + source)
+//   "gift card"          exact phrase
+//   source:cheapies.nz   source contains
+//   tag:travel           tag equals
+//   prize:>500           prize amount (NZD) compared with >, >=, <, <=, =
+//   closes:<7d           deadline within 7 days (units h, d, w) or a date: closes:<2026-03-01
+//                        (a date is the whole local day: = on it, < before it, > after it)
+//   -tag:stickers        any term can be negated with a leading "-"
+// Anything else with a colon is an unknown field, except URLs (https://…),
+// which are free text.
+
+type Comparator = "<" | "<=" | ">" | ">=" | "=";
+
+export type QueryTerm =
+  | { field: "text" | "source" | "tag"; value: string; negate: boolean }
+  | { field: "prize"; op: Comparator; amount: number; negate: boolean }
+  | { field: "closes"; op: Comparator; day: { startMs: number; endMs: number } | null; withinMs: number | null; negate: boolean };
+
+export type QueryError = { message: string; start: number; end: number };
+
+export type ParsedQuery = { terms: QueryTerm[]; errors: QueryError[] };
+
+// What a searchable item exposes; History items may lack most of it.
+export type QueryTarget = {
+  title: string;
+  source?: string | null;
+  tags?: string[] | null;
+  prize?: string | null;
+  prizeValue?: number | null;
+  deadline?: string | null;
+};
+
+const FIELDS = new Set(["source", "tag", "prize", "closes"]);
+const UNIT_MS: Record<string, number> = { h: 3600_000, d: 86400_000, w: 7 * 86400_000 };
+
+type Token = { text: string; start: number; end: number; quoted: boolean; negate: boolean };
+
+function tokenize(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+    const start = i;
+    let negate = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) { negate = true; i++; }
+
+    let text = "";
+    let quoted = false;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        // Only a leading quote makes the whole token a phrase; source:"a b" stays a field.
+        if (!text) quoted = true;
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          errors.push({ message: "Missing closing quote", start: i, end: input.length });
+          text += input.slice(i + 1);
+          i = input.length;
+        } else {
+          text += input.slice(i + 1, close);
+          i = close + 1;
+        }
+      } else {
+        text += input[i++];
+      }
+    }
+    if (text) tokens.push({ text, start, end: i, quoted, negate });
+  }
+  return tokens;
+}
+
+function parseComparison(raw: string): { op: Comparator; rest: string } {
+  const m = raw.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  return { op: (m[1] as Comparator) || "=", rest: m[2] };
+}
+
+// "2026-03-01" → that local day, from midnight up to (not including) the next.
+function parseDay(s: string): { startMs: number; endMs: number } | null {
+  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const [year, month, date] = [Number(m[1]), Number(m[2]) - 1, Number(m[3])];
+  const start = new Date(year, month, date);
+  // new Date() rolls 2026-02-30 over into March.
+  if (start.getMonth() !== month || start.getDate() !== date) return null;
+  const end = new Date(year, month, date + 1);
+  return { startMs: start.getTime(), endMs: end.getTime() };
+}
+
+// "$2k", "1,500", "500" → number
+export function parseAmount(s: string): number | null {
+  const m = s.replace(/[$,\s]/g, "").match(/^(\d+(?:\.\d+)?)(k)?$/i);
+  if (!m) return null;
+  return Number(m[1]) * (m[2] ? 1000 : 1);
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const errors: QueryError[] = [];
+  const terms: QueryTerm[] = [];
+
+  for (const tok of tokenize(input, errors)) {
+    const colon = tok.quoted ? -1 : tok.text.indexOf(":");
+    const key = colon > 0 ? tok.text.slice(0, colon).toLowerCase() : "";
+    const isUrl = !FIELDS.has(key) && tok.text.startsWith("//", colon + 1);
+    if (!key || !/^[a-z]+$/.test(key) || isUrl) {
+      terms.push({ field: "text", value: tok.text.toLowerCase(), negate: tok.negate });
+      continue;
+    }
+    if (!FIELDS.has(key)) {
+      errors.push({ message: `Unknown field "${key}:" (try source:, tag:, prize:, closes:)`, start: tok.start, end: tok.end });
+      continue;
+    }
+    const value = tok.text.slice(colon + 1);
+    if (!value) {
+      errors.push({ message: `"${key}:" needs a value`, start: tok.start, end: tok.end });
+      continue;
+    }
+
+    if (key === "source" || key === "tag") {
+      terms.push({ field: key, value: value.toLowerCase(), negate: tok.negate });
+    } else if (key === "prize") {
+      const { op, rest } = parseComparison(value);
+      const amount = parseAmount(rest);
+      if (amount === null) {
+        errors.push({ message: `"${rest}" isn't an amount (e.g. prize:>500 or prize:>=2k)`, start: tok.start, end: tok.end });
+        continue;
+      }
+      terms.push({ field: "prize", op, amount, negate: tok.negate });
+    } else {
+      const { op, rest } = parseComparison(value);
+      const rel = rest.match(/^(\d+)([hdw])$/i);
+      if (rel) {
+        terms.push({ field: "closes", op, day: null, withinMs: Number(rel[1]) * UNIT_MS[rel[2].toLowerCase()], negate: tok.negate });
+        continue;
+      }
+      const day = parseDay(rest);
+      if (!day) {
+        errors.push({ message: `"${rest}" isn't a duration or date (e.g. closes:<7d or closes:<2026-03-01)`, start: tok.start, end: tok.end });
+        continue;
+      }
+      terms.push({ field: "closes", op, day, withinMs: null, negate: tok.negate });
+    }
+  }
+  return { terms, errors };
+}
+
+function compare(a: number, op: Comparator, b: number) {
+  switch (op) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    default: return a === b;
+  }
+}
+
+// First dollar figure in a prize label: "$2K cash" → 2000, "worth $1,299" → 1299.
+export function prizeAmount(prize?: string | null): number | null {
+  const m = (prize || "").match(/\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k)?\b/i);
+  return m ? parseAmount(`${m[1]}${m[2] || ""}`) : null;
+}
+
+function termMatches(term: QueryTerm, t: QueryTarget, now: number): boolean {
+  switch (term.field) {
+    case "text":
+      return `${t.title} ${t.source ?? ""}`.toLowerCase().includes(term.value);
+    case "source":
+      return (t.source ?? "").toLowerCase().includes(term.value);
+    case "tag":
+      return (t.tags ?? []).some((x) => x.toLowerCase() === term.value);
+    case "prize": {
+      const amount = t.prizeValue ?? prizeAmount(t.prize);
+      return amount !== null && compare(amount, term.op, term.amount);
+    }
+    case "closes": {
+      const dl = t.deadline ? Date.parse(t.deadline) : NaN;
+      if (!Number.isFinite(dl)) return false;
+      if (term.withinMs !== null) {
+        // closes:<7d means "still open and closing within 7 days".
+        if (dl < now) return false;
+        return compare(dl - now, term.op, term.withinMs);
+      }
+      const { startMs, endMs } = term.day!;
+      switch (term.op) {
+        case "<": return dl < startMs;
+        case "<=": return dl < endMs;
+        case ">": return dl >= endMs;
+        case ">=": return dl >= startMs;
+        default: return dl >= startMs && dl < endMs;
+      }
+    }
+  }
+}
+
+export function matchesQuery(q: ParsedQuery, target: QueryTarget, now = Date.now()): boolean {
+  return q.terms.every((term) => termMatches(term, target, now) !== term.negate);
+}
@@ -0,0 +1,109 @@
+// src/lib/router.ts
+// Tiny hash router. Hash URLs keep deep links working on static hosting
+// (no server-side fallback needed), e.g.
+//   #/?q=lego&source=cheapies.nz&status=saved
+//   #/history
+//   #/stats
+//   #/sources
+//   #/rules
+//   #/health
+//   #/c/<encoded competition id>
+
+import { useEffect, useState } from "react";
+
+export type Route =
+  | { name: "feed" }
+  | { name: "history" }
+  | { name: "stats" }
+  | { name: "sources" }
+  | { name: "rules" }
+  | { name: "health" }
+  | { name: "competition"; id: string };
+
+export type Location = {
+  route: Route;
+  params: URLSearchParams;
+};
+
+export function parseHash(hash: string): Location {
+  const raw = hash.replace(/^#/, "") || "/";
+  const qi = raw.indexOf("?");
+  const pathname = qi === -1 ? raw : raw.slice(0, qi);
+  const params = new URLSearchParams(qi === -1 ? "" : raw.slice(qi + 1));
+  const parts = pathname.split("/").filter(Boolean);
+
+  let route: Route = { name: "feed" };
+  if (parts[0] === "history") route = { name: "history" };
+  else if (parts[0] === "stats") route = { name: "stats" };
+  else if (parts[0] === "sources") route = { name: "sources" };
+  else if (parts[0] === "rules") route = { name: "rules" };
+  else if (parts[0] === "health") route = { name: "health" };
+  else if (parts[0] === "c" && parts[1]) {
+    try {
+      route = { name: "competition", id: decodeURIComponent(parts.slice(1).join("/")) };
+    } catch {
+      route = { name: "feed" };
+    }
+  }
+  return { route, params };
+}
+
+function pathFor(route: Route): string {
+  switch (route.name) {
+    case "history":
+      return "/history";
+    case "stats":
+      return "/stats";
+    case "sources":
+      return "/sources";
+    case "rules":
+      return "/rules";
+    case "health":
+      return "/health";
+    case "competition":
+      return `/c/${encodeURIComponent(route.id)}`;
+    default:
+      return "/";
+  }
+}
+
+// Empty / undefined params are dropped so default views get clean URLs.
+export function href(route: Route, params?: Record<string, string | undefined | null>): string {
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(params || {})) {
+    if (v) sp.set(k, v);
+  }
+  const qs = sp.toString();
+  return `#${pathFor(route)}${qs ? `?${qs}` : ""}`;
+}
+
+// The feed filters in `params`, to carry through links that leave the feed
+// (modals, detail pages) so coming back restores the same view.
+export const FEED_PARAMS = ["q", "source", "status", "category"] as const;
+
+export function feedParams(params: URLSearchParams): Record<string, string | null> {
+  return Object.fromEntries(FEED_PARAMS.map((k) => [k, params.get(k)]));
+}
+
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}) {
+  if (to === window.location.hash) return;
+  if (replace) {
+    const url = new URL(window.location.href);
+    url.hash = to;
+    window.history.replaceState(window.history.state, "", url.toString());
+    // replaceState doesn't fire hashchange; notify listeners ourselves.
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+  } else {
+    window.location.hash = to;
+  }
+}
+
+export function useLocation(): Location {
+  const [loc, setLoc] = useState<Location>(() => parseHash(window.location.hash));
+  useEffect(() => {
+    const onChange = () => setLoc(parseHash(window.location.hash));
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
+  return loc;
+}
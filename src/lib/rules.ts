@@ -0,0 +1,91 @@
+// src/lib/rules.ts
+// User-defined feed rules: match competitions by keyword, regex or source and
+// hide, auto-save, tag or highlight them. Stored in the user state (./userState)
+// so they travel with the regular backup export.
+
+import { updateUserState, type Rule, type RuleAction, type RuleMatcher } from "./userState";
+
+export type { Rule, RuleAction, RuleMatcher };
+
+export type RuleResult = {
+  hidden: boolean;
+  save: boolean;
+  highlight: boolean;
+  tags: string[];
+};
+
+type Matchable = { title: string; source?: string | null; link?: string | null };
+
+// Returns an error message for an invalid matcher, else null.
+export function validateMatcher(m: RuleMatcher): string | null {
+  if (!m.pattern.trim()) return "Pattern can't be empty.";
+  if (m.kind === "regex") {
+    try {
+      new RegExp(m.pattern, "i");
+    } catch (e) {
+      return `Invalid regex: ${(e as Error).message}`;
+    }
+  }
+  return null;
+}
+
+// Compiled once per rule list; bad regexes simply never match.
+function compile(m: RuleMatcher): (c: Matchable) => boolean {
+  const pattern = m.pattern.trim().toLowerCase();
+  if (m.kind === "source") {
+    return (c) => (c.source ?? "").toLowerCase().includes(pattern) || (c.link ?? "").toLowerCase().includes(pattern);
+  }
+  if (m.kind === "regex") {
+    let re: RegExp;
+    try {
+      re = new RegExp(m.pattern, "i");
+    } catch {
+      return () => false;
+    }
+    return (c) => re.test(c.title);
+  }
+  // Keyword: whole-word match so "puzzle" doesn't catch "puzzled".
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const re = new RegExp(`(^|\\W)${escaped}($|\\W)`, "i");
+  return (c) => re.test(c.title);
+}
+
+export function compileRules(rules: Rule[] | undefined): (c: Matchable) => RuleResult {
+  const active = (rules ?? []).filter((r) => r.enabled).map((r) => ({ rule: r, test: compile(r.matcher) }));
+  return (c) => {
+    const out: RuleResult = { hidden: false, save: false, highlight: false, tags: [] };
+    for (const { rule, test } of active) {
+      if (!test(c)) continue;
+      if (rule.action === "hide") out.hidden = true;
+      if (rule.action === "save") out.save = true;
+      if (rule.action === "highlight") out.highlight = true;
+      if (rule.action === "tag" && rule.tag && !out.tags.includes(rule.tag)) out.tags.push(rule.tag);
+    }
+    return out;
+  };
+}
+
+// ===== Mutations =====
+function setRules(mut: (rules: Rule[]) => Rule[]) {
+  updateUserState((s) => ({ ...s, rules: mut(s.rules ?? []) }));
+}
+
+export function addRule(matcher: RuleMatcher, action: RuleAction, tag?: string) {
+  const rule: Rule = {
+    id: `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    enabled: true,
+    matcher: { kind: matcher.kind, pattern: matcher.pattern.trim() },
+    action,
+    createdAt: new Date().toISOString(),
+  };
+  if (action === "tag" && tag?.trim()) rule.tag = tag.trim().toLowerCase();
+  setRules((rules) => [...rules, rule]);
+}
+
+export function toggleRule(id: string) {
+  setRules((rules) => rules.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r)));
+}
+
+export function removeRule(id: string) {
+  setRules((rules) => rules.filter((r) => r.id !== id));
+}
@@ -0,0 +1,124 @@
+// src/lib/stats.test.ts
+import { describe, expect, it } from "vitest";
+import type { ArchiveItem } from "./userState";
+import { outcomeStats } from "./stats";
+
+// Local (Pacific/Auckland) wall-clock time as an ISO string; a bare date is noon.
+const at = (local: string) => new Date(local.includes("T") ? `${local}:00` : `${local}T12:00:00`).toISOString();
+
+let seq = 0;
+const item = (fields: Partial<ArchiveItem> = {}): ArchiveItem => ({
+  id: `item-${++seq}`,
+  title: "Win a TV",
+  source: "contest.co.nz",
+  entered: true,
+  outcome: "unknown",
+  archivedAtIso: at("2026-10-01"),
+  ...fields,
+});
+
+const enteredOn = (...dates: string[]) => item({ entries: dates.map((d) => ({ atIso: at(d) })) });
+
+describe("weekly streaks", () => {
+  it.each([
+    {
+      name: "runs through the September daylight saving change",
+      entries: ["2026-09-16", "2026-09-23", "2026-09-30", "2026-10-07"],
+      now: "2026-10-08",
+      currentWeeks: 4,
+      longestWeeks: 4,
+    },
+    {
+      name: "runs through the April daylight saving change",
+      entries: ["2026-03-25", "2026-04-01", "2026-04-08"],
+      now: "2026-04-09",
+      currentWeeks: 3,
+      longestWeeks: 3,
+    },
+    {
+      name: "splits Sunday night from Monday morning on the changeover weekend",
+      entries: ["2026-09-27T23:30", "2026-09-28T00:30"],
+      now: "2026-09-28",
+      currentWeeks: 2,
+      longestWeeks: 2,
+    },
+    {
+      name: "isn't broken by a week with no entries yet",
+      entries: ["2026-09-30", "2026-10-07"],
+      now: "2026-10-12",
+      currentWeeks: 2,
+      longestWeeks: 2,
+    },
+    {
+      name: "restarts after a missed week",
+      entries: ["2026-09-02", "2026-09-09", "2026-09-10", "2026-09-23", "2026-09-30"],
+      now: "2026-10-01",
+      currentWeeks: 2,
+      longestWeeks: 2,
+    },
+    {
+      name: "is zero once the last entry is two weeks back",
+      entries: ["2026-08-01"],
+      now: "2026-10-01",
+      currentWeeks: 0,
+      longestWeeks: 1,
+    },
+  ])("$name", ({ entries, now, currentWeeks, longestWeeks }) => {
+    const items = entries.map((d) => enteredOn(d));
+    const { streaks } = outcomeStats(items, { now: Date.parse(at(now)) });
+    expect({ currentWeeks: streaks.currentWeeks, longestWeeks: streaks.longestWeeks }).toEqual({ currentWeeks, longestWeeks });
+  });
+
+  it("buckets weeks from local Monday midnight on both sides of the change", () => {
+    const { weeks } = outcomeStats([enteredOn("2026-09-23", "2026-09-30")], { now: Date.parse(at("2026-10-01")), weeks: 3 });
+    expect(weeks).toEqual([
+      { startIso: at("2026-09-14T00:00"), entries: 0 },
+      { startIso: at("2026-09-21T00:00"), entries: 1 },
+      { startIso: at("2026-09-28T00:00"), entries: 1 },
+    ]);
+  });
+});
+
+describe("result streaks", () => {
+  it.each([
+    { outcomes: [], current: null, longestWins: 0 },
+    { outcomes: ["lost", "lost"], current: { outcome: "lost", count: 2 }, longestWins: 0 },
+    { outcomes: ["won", "won", "lost", "won"], current: { outcome: "won", count: 1 }, longestWins: 2 },
+    { outcomes: ["won", "lost", "won", "won", "won"], current: { outcome: "won", count: 3 }, longestWins: 3 },
+  ] as const)("$outcomes", ({ outcomes, current, longestWins }) => {
+    // Recorded a day apart, listed newest first to check they're sorted.
+    const items = outcomes
+      .map((outcome, i) => item({ entries: [{ atIso: at("2026-08-01") }], outcome, outcomeAtIso: at(`2026-08-${10 + i}`) }))
+      .reverse();
+    const { streaks } = outcomeStats(items, { now: Date.parse(at("2026-09-01")) });
+    expect({ current: streaks.current, longestWins: streaks.longestWins }).toEqual({ current, longestWins });
+  });
+});
+
+describe("days to draw", () => {
+  it.each([
+    { days: [], median: null },
+    { days: [3], median: 3 },
+    { days: [10, 1, 4], median: 4 },
+    { days: [2, 100, 4, 6], median: 5 },
+  ])("median of $days is $median", ({ days, median }) => {
+    const items = days.map((d) =>
+      item({ entries: [{ atIso: at("2026-08-01") }], outcome: "lost", outcomeAtIso: new Date(Date.parse(at("2026-08-01")) + d * 86400_000).toISOString() })
+    );
+    expect(outcomeStats(items, { now: Date.parse(at("2026-12-01")) }).daysToDraw).toEqual({ median, samples: days.length });
+  });
+
+  it("counts from the first entry of a repeat competition", () => {
+    const repeat = item({
+      entries: [{ atIso: at("2026-08-01") }, { atIso: at("2026-08-05") }],
+      outcome: "won",
+      outcomeAtIso: at("2026-08-11"),
+    });
+    expect(outcomeStats([repeat], { now: Date.parse(at("2026-09-01")) }).daysToDraw.median).toBe(10);
+  });
+});
+
+it("only counts items with an entry log", () => {
+  const stats = outcomeStats([item({ entries: [] }), enteredOn("2026-08-03")], { now: Date.parse(at("2026-08-05")) });
+  expect({ entered: stats.entered, submissions: stats.submissions }).toEqual({ entered: 1, submissions: 1 });
+});
@@ -0,0 +1,147 @@
+// src/lib/stats.ts
+// Outcome statistics for the Stats page, computed from the archive. Only
+// entered competitions count; each is one result once it's marked won or
+// lost, however many times it was entered.
+import type { ArchiveItem } from "./userState";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RateRow = { key: string; entered: number; decided: number; won: number; rate: number | null; valueWon: number };
+
+export type OutcomeStats = {
+  entered: number;
+  submissions: number;
+  won: number;
+  lost: number;
+  winRate: number | null; // won / (won + lost)
+  valueWon: number;
+  unvaluedWins: number; // wins with no value to add up
+  // Oldest first; weeks start on Monday.
+  weeks: { startIso: string; entries: number }[];
+  streaks: {
+    currentWeeks: number; // weeks in a row with at least one entry, up to this one
+    longestWeeks: number;
+    longestWins: number;
+    current: { outcome: "won" | "lost"; count: number } | null; // latest results in a row
+  };
+  // First entry → result recorded, in days.
+  daysToDraw: { median: number | null; samples: number };
+  bySource: RateRow[];
+  byCategory: RateRow[];
+  // Wins not yet received, soonest claim deadline first.
+  toClaim: ArchiveItem[];
+};
+
+export function entryTimes(item: ArchiveItem): number[] {
+  return (item.entries ?? []).map((e) => Date.parse(e.atIso)).filter(Number.isFinite);
+}
+
+export function weekStart(ms: number): Date {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+}
+
+function previousWeek(d: Date): Date {
+  const prev = new Date(d);
+  prev.setDate(prev.getDate() - 7);
+  return prev;
+}
+
+export function prizeWon(item: ArchiveItem): number | null {
+  const value = item.win?.value ?? item.prizeValue;
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function rateRows(items: ArchiveItem[], keysOf: (i: ArchiveItem) => string[]): RateRow[] {
+  const rows = new Map<string, RateRow>();
+  for (const item of items) {
+    for (const key of keysOf(item)) {
+      const row = rows.get(key) ?? { key, entered: 0, decided: 0, won: 0, rate: null, valueWon: 0 };
+      row.entered++;
+      if (item.outcome === "won" || item.outcome === "lost") row.decided++;
+      if (item.outcome === "won") {
+        row.won++;
+        row.valueWon += prizeWon(item) ?? 0;
+      }
+      rows.set(key, row);
+    }
+  }
+  return [...rows.values()]
+    .map((r) => ({ ...r, rate: r.decided ? r.won / r.decided : null }))
+    .sort((a, b) => b.won - a.won || b.entered - a.entered || a.key.localeCompare(b.key));
+}
+
+export function outcomeStats(all: ArchiveItem[], { now = Date.now(), weeks = 12 } = {}): OutcomeStats {
+  const entered = all.filter((i) => entryTimes(i).length > 0);
+  const won = entered.filter((i) => i.outcome === "won");
+  const lost = entered.filter((i) => i.outcome === "lost");
+
+  // Entries per week
+  const perWeek = new Map<number, number>();
+  for (const t of entered.flatMap(entryTimes)) {
+    const key = weekStart(t).getTime();
+    perWeek.set(key, (perWeek.get(key) ?? 0) + 1);
+  }
+  const recent: OutcomeStats["weeks"] = [];
+  for (let w = weekStart(now), i = 0; i < weeks; w = previousWeek(w), i++) {
+    recent.unshift({ startIso: w.toISOString(), entries: perWeek.get(w.getTime()) ?? 0 });
+  }
+
+  // Weekly streaks. A week with no entries yet doesn't break the current streak.
+  let week = weekStart(now);
+  if (!perWeek.has(week.getTime())) week = previousWeek(week);
+  let currentWeeks = 0;
+  for (; perWeek.has(week.getTime()); week = previousWeek(week)) currentWeeks++;
+  let longestWeeks = 0;
+  for (const start of perWeek.keys()) {
+    if (perWeek.has(previousWeek(new Date(start)).getTime())) continue;
+    let run = 0;
+    for (let w = new Date(start); perWeek.has(w.getTime()); w.setDate(w.getDate() + 7)) run++;
+    longestWeeks = Math.max(longestWeeks, run);
+  }
+
+  // Result streaks, in the order results were recorded.
+  const results = [...won, ...lost]
+    .filter((i) => i.outcomeAtIso)
+    .sort((a, b) => Date.parse(a.outcomeAtIso!) - Date.parse(b.outcomeAtIso!))
+    .map((i) => i.outcome as "won" | "lost");
+  let longestWins = 0;
+  let current: OutcomeStats["streaks"]["current"] = null;
+  for (const outcome of results) {
+    current = current?.outcome === outcome ? { outcome, count: current.count + 1 } : { outcome, count: 1 };
+    if (outcome === "won") longestWins = Math.max(longestWins, current.count);
+  }
+
+  const toDraw = [...won, ...lost]
+    .map((i) => (Date.parse(i.outcomeAtIso ?? "") - Math.min(...entryTimes(i))) / DAY_MS)
+    .filter((d) => Number.isFinite(d) && d >= 0);
+
+  const wonValues = won.map(prizeWon);
+  const decided = won.length + lost.length;
+  const claimBy = (i: ArchiveItem) => Date.parse(i.win?.claimDeadline ?? "") || Infinity;
+
+  return {
+    entered: entered.length,
+    submissions: entered.reduce((n, i) => n + entryTimes(i).length, 0),
+    won: won.length,
+    lost: lost.length,
+    winRate: decided ? won.length / decided : null,
+    valueWon: wonValues.reduce<number>((sum, v) => sum + (v ?? 0), 0),
+    unvaluedWins: wonValues.filter((v) => v === null).length,
+    weeks: recent,
+    streaks: { currentWeeks, longestWeeks, longestWins, current },
+    daysToDraw: { median: median(toDraw), samples: toDraw.length },
+    bySource: rateRows(entered, (i) => [i.source || "Unknown"]),
+    byCategory: rateRows(entered, (i) => (i.tags?.length ? i.tags : ["Uncategorised"])),
+    toClaim: won.filter((i) => i.win?.delivery !== "received").sort((a, b) => claimBy(a) - claimBy(b)),
+  };
+}
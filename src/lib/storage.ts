@@ -0,0 +1,125 @@
+// src/lib/storage.ts
+// Async key/value storage for user data. IndexedDB when available (no 5 MB
+// localStorage quota, no synchronous JSON parse on first paint), falling back
+// to localStorage. Writes are announced to other open tabs over a
+// BroadcastChannel (or the native `storage` event on the fallback backend).
+
+export type StorageBackend = {
+  name: "indexeddb" | "localStorage";
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+};
+
+const DB_NAME = "parlay";
+const DB_VERSION = 1;
+const STORE = "kv";
+const CHANNEL = "parlay:storage";
+
+// Keys that used to live in localStorage and move into IndexedDB on first run.
+// (parlay:state:v4 from userState.ts, parlay:sources:v1 from userSources.ts.)
+const MIGRATE_KEYS = ["parlay:state:v4", "parlay:sources:v1"];
+
+function reqToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("IndexedDB open blocked"));
+  });
+}
+
+function idbBackend(db: IDBDatabase): StorageBackend {
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE, mode).objectStore(STORE);
+  return {
+    name: "indexeddb",
+    get: (key) => reqToPromise(store("readonly").get(key)),
+    set: async (key, value) => { await reqToPromise(store("readwrite").put(value, key)); },
+    remove: async (key) => { await reqToPromise(store("readwrite").delete(key)); },
+  };
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: "localStorage",
+  async get(key) {
+    const raw = localStorage.getItem(key);
+    if (raw == null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  },
+  async set(key, value) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async remove(key) {
+    localStorage.removeItem(key);
+  },
+};
+
+async function migrateFromLocalStorage(backend: StorageBackend) {
+  for (const key of MIGRATE_KEYS) {
+    const legacy = await localStorageBackend.get(key);
+    if (legacy === undefined) continue;
+    if ((await backend.get(key)) === undefined) await backend.set(key, legacy);
+    localStorage.removeItem(key);
+  }
+}
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+export function getStorage(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB === "undefined") return localStorageBackend;
+      try {
+        const backend = idbBackend(await openDb());
+        await migrateFromLocalStorage(backend);
+        return backend;
+      } catch {
+        // Private browsing modes can refuse IndexedDB; keep working regardless.
+        return localStorageBackend;
+      }
+    })();
+  }
+  return backendPromise;
+}
+
+// ===== Cross-tab sync =====
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL) : null;
+
+export async function readKey<T>(key: string): Promise<T | undefined> {
+  return (await (await getStorage()).get(key)) as T | undefined;
+}
+
+export async function writeKey(key: string, value: unknown): Promise<void> {
+  await (await getStorage()).set(key, value);
+  channel?.postMessage({ key });
+}
+
+// Fires when another tab writes `key`. Our own writes are not echoed back.
+export function onExternalChange(key: string, fn: () => void): () => void {
+  const onMessage = (e: MessageEvent) => {
+    if (e.data?.key === key) fn();
+  };
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === key) fn();
+  };
+  channel?.addEventListener("message", onMessage);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    channel?.removeEventListener("message", onMessage);
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -1,5 +1,7 @@
 // src/lib/userSources.ts
 
+import { readKey, writeKey } from "./storage";
+
 export type UserRssSource = {
   url: string;
   enabled: boolean;
@@ -19,8 +21,26 @@ export type UserSiteSource = {
   throttle_ms?: number;
   href_selector?: string;
   item_selector?: string;
+
+  // Detail-page field selectors, same mini-language as sources.json:
+  // "css", "css@attr", and "a || b" fallback chains.
+  title_selector?: string;
+  published_selector?: string;
+  deadline_selector?: string;
+  prize_selector?: string;
+  description_selector?: string;
 };
 
+// The detail-page selectors the Manage sources form can edit.
+export const SITE_FIELD_SELECTORS = [
+  "title_selector",
+  "published_selector",
+  "deadline_selector",
+  "prize_selector",
+  "description_selector",
+] as const;
+export type SiteFieldSelector = (typeof SITE_FIELD_SELECTORS)[number];
+
 export type UserSourcesV1 = {
   version: 1;
   rss: UserRssSource[];
@@ -69,11 +89,9 @@ export function validateUserSources(obj: any): obj is UserSourcesV1 {
   return true;
 }
 
-export function loadUserSources(): UserSourcesV1 {
-  const raw = localStorage.getItem(USER_SOURCES_KEY);
-  if (!raw) return emptyUserSources();
+export async function loadUserSources(): Promise<UserSourcesV1> {
   try {
-    const parsed = JSON.parse(raw);
+    const parsed = await readKey(USER_SOURCES_KEY);
     if (validateUserSources(parsed)) return parsed;
   } catch {
     // ignore
@@ -81,8 +99,8 @@ export function loadUserSources(): UserSourcesV1 {
   return emptyUserSources();
 }
 
-export function saveUserSources(next: UserSourcesV1) {
-  localStorage.setItem(USER_SOURCES_KEY, JSON.stringify(next));
+export async function saveUserSources(next: UserSourcesV1): Promise<void> {
+  await writeKey(USER_SOURCES_KEY, next);
 }
 
 export function addRssSource(state: UserSourcesV1, url: string): UserSourcesV1 {
@@ -134,6 +152,29 @@ export function toggleSite(state: UserSourcesV1, index: string): UserSourcesV1 {
   };
 }
 
+// Set or clear (empty string) detail-page selectors on one site.
+export function setSiteSelectors(
+  state: UserSourcesV1,
+  index: string,
+  selectors: Partial<Record<SiteFieldSelector, string>>
+): UserSourcesV1 {
+  const target = normaliseUrl(index);
+  return {
+    ...state,
+    sites: state.sites.map((s) => {
+      if (normaliseUrl(s.index) !== target) return s;
+      const next: UserSiteSource = { ...s };
+      for (const key of SITE_FIELD_SELECTORS) {
+        if (!(key in selectors)) continue;
+        const value = (selectors[key] ?? "").trim();
+        if (value) next[key] = value;
+        else delete next[key];
+      }
+      return next;
+    }),
+  };
+}
+
 export function removeRss(state: UserSourcesV1, url: string): UserSourcesV1 {
   const target = normaliseUrl(url);
   return { ...state, rss: state.rss.filter((r) => normaliseUrl(r.url) !== target) };
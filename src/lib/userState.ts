@@ -0,0 +1,333 @@
+// src/lib/userState.ts
+// Single versioned repository for everything the user does with competitions:
+// saved/entered flags, notes and outcomes (the "archive"), deleted ids and
+// first-seen timestamps. Replaces the separate App PersistState (parlay:v3)
+// and archive (parlay:archive:v1) stores; both are migrated on first load.
+//
+// Reads are synchronous from memory; the copy on disk lives in ./storage
+// (IndexedDB) and is loaded by initUserState().
+
+import { useSyncExternalStore } from "react";
+import { onExternalChange, readKey, writeKey } from "./storage";
+
+export type ArchiveOutcome = "unknown" | "won" | "lost";
+
+// How often a competition may be re-entered.
+export type EntryFrequency = "once" | "daily" | "weekly";
+export type EntryMethod = "form" | "email" | "social" | "in-store" | "other";
+export type EntryLogEntry = { atIso: string; method?: EntryMethod; note?: string };
+
+// What happened after a win. value is what the prize turned out to be worth
+// (NZD); without it the stats fall back to the listing's prizeValue.
+export type DeliveryStatus = "to-claim" | "claimed" | "shipped" | "received";
+export type WinDetails = { prizeReceived?: string; value?: number; delivery?: DeliveryStatus; claimDeadline?: string };
+
+export type ArchiveItem = {
+  id: string;
+  title: string;
+  source?: string | null;
+  link?: string | null;
+  // Snapshot from the last time the item was seen in feeds.json/expired.json,
+  // so History can still show them once it's gone.
+  deadline?: string | null;
+  prize?: string | null;
+  prizeValue?: number | null;
+  tags?: string[]; // categories, for per-category stats
+  createdAt?: string | null; // set while a matching feed item exists
+  closedAt?: string | null; // set from public/expired.json once the pipeline closes it
+  saved?: boolean;
+  savedAtIso?: string; // last time `saved` was switched on
+  entered?: boolean;
+  entries?: EntryLogEntry[]; // one per submission, oldest first
+  frequency?: EntryFrequency; // defaults to "once"
+  notes?: string;
+  outcome?: ArchiveOutcome;
+  outcomeAtIso?: string; // when won/lost was recorded
+  win?: WinDetails;
+  archivedAtIso: string;
+};
+
+// Feed rules (see ./rules). Evaluated against every feed item on load.
+export type RuleMatcher = { kind: "keyword" | "regex" | "source"; pattern: string };
+export type RuleAction = "hide" | "save" | "tag" | "highlight";
+export type Rule = {
+  id: string;
+  enabled: boolean;
+  matcher: RuleMatcher;
+  action: RuleAction;
+  tag?: string; // for action "tag"
+  createdAt: string;
+};
+
+export type UserStateV4 = {
+  version: 4;
+  items: Record<string, ArchiveItem>;
+  deleted: string[];
+  firstSeenAt: Record<string, string>;
+  rules?: Rule[];
+};
+
+export const USER_STATE_KEY = "parlay:state:v4";
+export const USER_STATE_SCHEMA = "parlay:user:v4";
+
+// Newest first; the archive lives under its own key and is merged separately.
+export const LEGACY_KEYS = ["parlay:v3", "parlay:v2", "parley:v2", "parley:v1", "comp-hunt:v1"];
+export const LEGACY_ARCHIVE_KEY = "parlay:archive:v1";
+
+export function emptyUserState(): UserStateV4 {
+  return { version: 4, items: {}, deleted: [], firstSeenAt: {} };
+}
+
+function isRecord(x: unknown): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function isUserStateV4(x: any): x is UserStateV4 {
+  return x?.version === 4 && isRecord(x.items) && isRecord(x.firstSeenAt) && Array.isArray(x.deleted);
+}
+
+const RULE_KINDS: RuleMatcher["kind"][] = ["keyword", "regex", "source"];
+const RULE_ACTIONS: RuleAction[] = ["hide", "save", "tag", "highlight"];
+
+// Imported backups are hand-editable; a rule the evaluator can't run is dropped.
+function isRule(x: any): x is Rule {
+  return (
+    isRecord(x) &&
+    typeof x.id === "string" &&
+    isRecord(x.matcher) &&
+    RULE_KINDS.includes(x.matcher.kind) &&
+    typeof x.matcher.pattern === "string" &&
+    RULE_ACTIONS.includes(x.action)
+  );
+}
+
+// ===== Migrations =====
+type LegacyFlags = { saved?: boolean; submitted?: boolean };
+
+// parlay:v3 / v2 ({ flags }) and parley:v1 / comp-hunt:v1 ({ statuses }).
+function flagsFromLegacy(parsed: any): Record<string, LegacyFlags> {
+  const flags: Record<string, LegacyFlags> = {};
+  if (isRecord(parsed?.flags)) {
+    for (const [id, f] of Object.entries(parsed.flags as Record<string, LegacyFlags>)) {
+      flags[id] = { saved: !!f?.saved, submitted: !!f?.submitted };
+    }
+  } else if (isRecord(parsed?.statuses)) {
+    for (const [id, s] of Object.entries(parsed.statuses as Record<string, unknown>)) {
+      const status = String(s);
+      flags[id] = { saved: status === "saved", submitted: status === "submitted" || status === "entered" };
+    }
+  }
+  return flags;
+}
+
+function stubItem(id: string, at: string): ArchiveItem {
+  // Title etc. are filled in by fillFromFeed() (archive.ts) once the item shows up in the feed.
+  return { id, title: "", source: null, link: null, createdAt: null, saved: false, entered: false, notes: "", outcome: "unknown", archivedAtIso: at };
+}
+
+// Fold a legacy flags/statuses blob into `into`. Flags only ever turn on.
+function mergeLegacyFlags(into: UserStateV4, parsed: any) {
+  const at = new Date().toISOString();
+  for (const [id, f] of Object.entries(flagsFromLegacy(parsed))) {
+    if (!f.saved && !f.submitted) continue;
+    const cur = into.items[id] ?? stubItem(id, at);
+    into.items[id] = { ...cur, saved: cur.saved || !!f.saved, entered: cur.entered || !!f.submitted };
+  }
+  if (Array.isArray(parsed?.deleted)) {
+    into.deleted = Array.from(new Set([...into.deleted, ...parsed.deleted.map(String)]));
+  }
+  if (isRecord(parsed?.firstSeenAt)) {
+    into.firstSeenAt = { ...parsed.firstSeenAt, ...into.firstSeenAt };
+  }
+}
+
+function mergeLegacyArchive(into: UserStateV4, parsed: any) {
+  if (!isRecord(parsed?.items)) return;
+  for (const [id, item] of Object.entries(parsed.items as Record<string, ArchiveItem>)) {
+    if (!item || typeof item !== "object") continue;
+    const cur = into.items[id];
+    into.items[id] = cur
+      ? { ...cur, ...item, id, title: item.title || cur.title, saved: cur.saved || item.saved, entered: cur.entered || item.entered }
+      : { ...item, id };
+  }
+}
+
+// Items entered before the entry log existed get a single entry, dated when
+// the item was last touched. It's recorded once, here, so later edits to the
+// item (which move archivedAtIso) don't move the entry with them.
+function backfillEntries(s: UserStateV4): UserStateV4 {
+  const missing = Object.values(s.items).filter((i) => i.entered && !i.entries?.length);
+  if (!missing.length) return s;
+  const items = { ...s.items };
+  for (const i of missing) items[i.id] = { ...i, entries: [{ atIso: i.archivedAtIso || new Date().toISOString() }] };
+  return { ...s, items };
+}
+
+// Converts any supported blob (v4 state, v3 backup/persist state, v1 archive)
+// into a v4 state, merged on top of `base`.
+export function migrate(parsed: any, base: UserStateV4 = emptyUserState()): UserStateV4 {
+  const next: UserStateV4 = { ...base, items: { ...base.items }, deleted: [...base.deleted], firstSeenAt: { ...base.firstSeenAt } };
+  if (isUserStateV4(parsed)) {
+    mergeLegacyArchive(next, parsed);
+    mergeLegacyFlags(next, { deleted: parsed.deleted, firstSeenAt: parsed.firstSeenAt });
+    if (Array.isArray(parsed.rules)) next.rules = parsed.rules.filter(isRule);
+    return backfillEntries(next);
+  }
+  mergeLegacyArchive(next, parsed);
+  mergeLegacyFlags(next, parsed);
+  return backfillEntries(next);
+}
+
+function readLegacyJson(key: string): any {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Pre-v4 stores only ever lived in localStorage.
+function loadLegacy(): UserStateV4 {
+  let next = emptyUserState();
+  const archive = readLegacyJson(LEGACY_ARCHIVE_KEY);
+  if (archive) next = migrate(archive, next);
+  const legacyKey = LEGACY_KEYS.find((k) => readLegacyJson(k) !== null);
+  if (legacyKey) next = migrate(readLegacyJson(legacyKey), next);
+  return next;
+}
+
+// ===== Repository =====
+let state: UserStateV4 = emptyUserState();
+let ready = false;
+let initPromise: Promise<void> | null = null;
+// Mutations made before the stored state has loaded; replayed on top of it.
+let pending: Array<(s: UserStateV4) => UserStateV4> = [];
+let writeChain: Promise<void> = Promise.resolve();
+let writesQueued = 0;
+// The last write's failure, until a later one lands. While set, storage is
+// behind what's on screen.
+let saveError: Error | null = null;
+const listeners = new Set<() => void>();
+
+export function getUserState(): UserStateV4 {
+  return state;
+}
+
+export function isUserStateReady(): boolean {
+  return ready;
+}
+
+export function getUserStateSaveError(): Error | null {
+  return saveError;
+}
+
+function notify() {
+  for (const fn of Array.from(listeners)) fn();
+}
+
+function setSaveError(err: Error | null) {
+  if (err === saveError) return;
+  saveError = err;
+  notify();
+}
+
+function persist(next: UserStateV4) {
+  // Serialise writes so a slow put can't land after a newer one. Each write
+  // is the whole state, so the next one that lands catches storage up.
+  writesQueued++;
+  writeChain = writeChain
+    .then(() => writeKey(USER_STATE_KEY, next))
+    .then(
+      () => setSaveError(null),
+      (err) => setSaveError(err instanceof Error ? err : new Error(String(err)))
+    )
+    .finally(() => {
+      writesQueued--;
+    });
+}
+
+export function retrySave() {
+  if (ready) persist(state);
+}
+
+export function initUserState(): Promise<void> {
+  if (!initPromise) {
+    initPromise = (async () => {
+      const stored = await readKey<UserStateV4>(USER_STATE_KEY);
+      // Legacy keys are left in place so an older build can still read them.
+      let loaded = isUserStateV4(stored) ? backfillEntries(stored) : loadLegacy();
+      for (const mut of pending) loaded = mut(loaded);
+      pending = [];
+      state = loaded;
+      ready = true;
+      if (!isUserStateV4(stored) || loaded !== stored) persist(loaded);
+      notify();
+
+      // Another tab wrote. A write of ours still queued holds the newer edit
+      // and will overwrite theirs anyway, so don't swap it out from under it.
+      onExternalChange(USER_STATE_KEY, async () => {
+        if (writesQueued) return;
+        const fresh = await readKey<UserStateV4>(USER_STATE_KEY);
+        if (writesQueued || !isUserStateV4(fresh)) return;
+        state = fresh;
+        notify();
+      });
+    })();
+  }
+  return initPromise;
+}
+
+export function subscribe(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// `mut` returns the next state (treat the argument as immutable). Returning
+// the same object skips the write and the notification.
+export function updateUserState(mut: (s: UserStateV4) => UserStateV4) {
+  const prev = state;
+  const next = mut(prev);
+  if (next === prev) return;
+  state = next;
+  if (ready) persist(next);
+  else pending.push(mut);
+  notify();
+}
+
+export function replaceUserState(next: UserStateV4) {
+  updateUserState(() => next);
+}
+
+export function useUserState(): UserStateV4 {
+  return useSyncExternalStore(subscribe, getUserState);
+}
+
+export function useUserStateSaveError(): Error | null {
+  return useSyncExternalStore(subscribe, getUserStateSaveError);
+}
+
+// ===== Import / export =====
+export function exportUserStateJson(s: UserStateV4 = getUserState()) {
+  return JSON.stringify({ schema: USER_STATE_SCHEMA, exportedAt: new Date().toISOString(), ...s }, null, 2);
+}
+
+// A v4 export replaces the current state. Older backups (parlay:user:v3 or
+// a parlay:archive:v1 history export) are merged into it instead, since they
+// only ever covered half of what v4 holds.
+export function importUserStateJson(text: string): UserStateV4 {
+  const parsed = JSON.parse(text);
+  if (isUserStateV4(parsed)) {
+    const next = migrate(parsed);
+    replaceUserState(next);
+    return next;
+  }
+  const looksLegacy = isRecord(parsed?.flags) || isRecord(parsed?.statuses) || isRecord(parsed?.items);
+  if (!looksLegacy) throw new Error("Invalid user backup");
+  const next = migrate(parsed, getUserState());
+  replaceUserState(next);
+  return next;
+}
@@ -1,9 +1,13 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './ui/App'
+import { initUserState } from './lib/userState'
 import './index.css'
 import './tokens.css'
 
+// Render straight away; saved flags fill in once IndexedDB has loaded.
+void initUserState()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,175 @@
+// src/pages/Competition.tsx
+import React, { useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import type { Competition } from "../types";
+import { entryStatus, logEntry, removeEntry, setFrequency, type ArchiveItem, type EntryMethod } from "../lib/archive";
+import { CompetitionCard } from "../ui/CompetitionCard";
+
+function formatDateTime(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Intl.DateTimeFormat("en-NZ", { dateStyle: "medium", timeStyle: "short" }).format(d);
+}
+
+const METHODS: [EntryMethod, string][] = [
+  ["form", "Online form"],
+  ["email", "Email"],
+  ["social", "Social media"],
+  ["in-store", "In store"],
+  ["other", "Other"],
+];
+
+function EntryLog({ item, archived }: { item: Competition; archived?: ArchiveItem }) {
+  const [method, setMethod] = useState<EntryMethod>("form");
+  const [note, setNote] = useState("");
+  const entries = archived?.entries ?? [];
+
+  function submit() {
+    logEntry(item, { method, note });
+    setNote("");
+  }
+
+  return (
+    <section style={{ marginTop: "2rem" }}>
+      <h3 style={{ fontSize: "0.95rem", fontWeight: 600, color: "#0f0f0f" }}>Entries</h3>
+      {entries.length === 0 ? (
+        <p style={{ marginTop: "0.5rem", fontSize: "0.85rem", color: "#888" }}>No entries logged yet.</p>
+      ) : (
+        <ul style={{ marginTop: "0.5rem", fontSize: "0.85rem", listStyle: "none", padding: 0 }}>
+          {entries.map((e) => (
+            <li key={e.atIso} style={{ display: "flex", gap: "0.75rem", padding: "0.35rem 0", borderBottom: "1px solid #e8e6e0" }}>
+              <span style={{ color: "#0f0f0f" }}>{formatDateTime(e.atIso)}</span>
+              <span style={{ color: "#888" }}>{METHODS.find(([m]) => m === e.method)?.[1] ?? ""}</span>
+              <span style={{ flex: 1, color: "#3a3a3a" }}>{e.note ?? ""}</span>
+              <button onClick={() => removeEntry(item.id, e.atIso)} title="Remove entry" style={{ border: "none", background: "transparent", color: "#888", cursor: "pointer", fontSize: "0.75rem" }}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div style={{ marginTop: "0.75rem", display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+        <select value={method} onChange={(e) => setMethod(e.target.value as EntryMethod)} style={{ padding: "0.4rem", border: "1px solid #e8e6e0", borderRadius: 6, fontSize: "0.8rem" }}>
+          {METHODS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          style={{ flex: 1, minWidth: 160, padding: "0.4rem 0.6rem", border: "1px solid #e8e6e0", borderRadius: 6, fontSize: "0.8rem" }}
+        />
+        <button onClick={submit} style={{ padding: "0.4rem 0.9rem", border: "1px solid #0f0f0f", background: "#0f0f0f", color: "#fff", borderRadius: 6, fontSize: "0.8rem", cursor: "pointer" }}>
+          Log entry
+        </button>
+      </div>
+    </section>
+  );
+}
+
+export default function CompetitionPage({
+  id,
+  item,
+  archived,
+  backHref,
+  flags,
+  onToggleSave,
+  onToggleSubmitted,
+  onLogEntry,
+  onDelete,
+}: {
+  id: string;
+  item?: Competition;
+  archived?: ArchiveItem;
+  backHref: string; // the feed with the filters the user came from
+  flags: { saved?: boolean; submitted?: boolean };
+  onToggleSave: () => void;
+  onToggleSubmitted: () => void;
+  onLogEntry: () => void;
+  onDelete: () => void;
+}) {
+  const back = (
+    <a href={backHref} style={{ display: "inline-flex", alignItems: "center", gap: "0.4rem", fontSize: "0.8rem", color: "#888", textDecoration: "none" }}>
+      <ArrowLeft style={{ width: 14, height: 14 }} /> Back to feed
+    </a>
+  );
+
+  // Not in the current feed: fall back to the archived snapshot, if any.
+  if (!item) {
+    return (
+      <div>
+        {back}
+        {archived ? (
+          <div style={{ marginTop: "1.5rem" }}>
+            <h2 style={{ fontSize: "1.4rem", fontWeight: 500, color: "#0f0f0f" }}>{archived.title}</h2>
+            <p style={{ marginTop: "0.5rem", fontSize: "0.85rem", color: "#888" }}>
+              {archived.source ?? ""} · no longer in the feed
+            </p>
+            {archived.link && (
+              <p style={{ marginTop: "1rem", fontSize: "0.85rem" }}>
+                <a href={archived.link} target="_blank" rel="noreferrer">Open original page</a>
+              </p>
+            )}
+            {archived.notes && <p style={{ marginTop: "1rem", fontSize: "0.85rem", whiteSpace: "pre-wrap" }}>{archived.notes}</p>}
+          </div>
+        ) : (
+          <p style={{ padding: "2rem 0", color: "#888", fontSize: "0.9rem" }}>
+            Couldn't find <code>{id}</code> in the feed or your history.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const rows: [string, React.ReactNode][] = [
+    ["Source", item.source],
+    ["Published", formatDateTime(item.createdAt)],
+    ["Closes", formatDateTime(item.deadline) || "Unknown"],
+    ["Prize", item.prize || "—"],
+    ["Link", <a href={item.link} target="_blank" rel="noreferrer" style={{ wordBreak: "break-all" }}>{item.link}</a>],
+  ];
+  if (item.entryUrl) {
+    rows.push(["Entry page", <a href={item.entryUrl} target="_blank" rel="noreferrer" style={{ wordBreak: "break-all" }}>{item.entryUrl}</a>]);
+  }
+  if (item.alsoSeenOn?.length) {
+    rows.push([
+      "Also seen on",
+      <span style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+        {item.alsoSeenOn.map((s) => (
+          <a key={s.link} href={s.link} target="_blank" rel="noreferrer" style={{ wordBreak: "break-all" }}>{s.source}</a>
+        ))}
+      </span>,
+    ]);
+  }
+
+  return (
+    <div>
+      {back}
+      <div style={{ marginTop: "1.5rem", borderTop: "1px solid #e8e6e0" }}>
+        <CompetitionCard
+          item={item}
+          flags={flags}
+          onToggleSave={onToggleSave}
+          onEnter={() => window.open(item.entryUrl || item.link, "_blank")}
+          onToggleSubmitted={onToggleSubmitted}
+          onLogEntry={onLogEntry}
+          onDelete={onDelete}
+          entry={entryStatus(archived)}
+          onSetFrequency={(f) => setFrequency(item, f)}
+        />
+      </div>
+      {item.description && (
+        <p style={{ marginTop: "1.25rem", fontSize: "0.9rem", lineHeight: 1.6, color: "#3a3a3a" }}>{item.description}</p>
+      )}
+      <dl style={{ marginTop: "1.5rem", display: "grid", gridTemplateColumns: "max-content 1fr", gap: "0.5rem 1.5rem", fontSize: "0.85rem" }}>
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt style={{ color: "#888" }}>{label}</dt>
+            <dd style={{ margin: 0, color: "#0f0f0f" }}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <EntryLog item={item} archived={archived} />
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+// src/pages/Health.tsx
+import React from "react";
+import { isBroken, sourceRows, type SourceStatus, type StoredReport } from "../lib/health";
+
+function formatDateTime(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Intl.DateTimeFormat("en-NZ", { dateStyle: "medium", timeStyle: "short" }).format(d);
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined || ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+const STATUS_STYLE: Record<SourceStatus, { label: string; background: string; color: string }> = {
+  ok: { label: "OK", background: "#edfaf3", color: "#1a7a45" },
+  empty: { label: "Empty", background: "#f0eee8", color: "#888" },
+  silent: { label: "Silent", background: "#fdf3dc", color: "#b07d2a" },
+  error: { label: "Error", background: "#fde8e8", color: "#c0392b" },
+};
+
+function StatusBadge({ status }: { status: SourceStatus }) {
+  const s = STATUS_STYLE[status];
+  return (
+    <span style={{
+      display: "inline-flex", alignItems: "center",
+      padding: "0.15rem 0.5rem", borderRadius: "0.25rem",
+      fontSize: "0.68rem", fontWeight: 600, letterSpacing: "0.04em", textTransform: "uppercase" as const,
+      background: s.background, color: s.color,
+    }}>
+      {s.label}
+    </span>
+  );
+}
+
+// One square per recent run, oldest on the left.
+function RunStrip({ runs }: { runs: (SourceStatus | null)[] }) {
+  return (
+    <span style={{ display: "inline-flex", gap: 2 }}>
+      {runs.map((r, i) => (
+        <span
+          key={i}
+          title={r ? STATUS_STYLE[r].label : "Not run"}
+          style={{ width: 6, height: 12, borderRadius: 1, background: r ? STATUS_STYLE[r].color : "#e8e6e0", opacity: r === "ok" ? 0.6 : 1 }}
+        />
+      ))}
+    </span>
+  );
+}
+
+// skippedItems: feeds.json items this browser dropped because they didn't
+// match the Competition type.
+export default function HealthPage({ report, skippedItems = 0 }: { report: StoredReport | null; skippedItems?: number }) {
+  if (!report) {
+    return (
+      <p style={{ padding: "2rem 0", color: "#888", fontSize: "0.9rem" }}>
+        No ingestion report yet. Run <code>npm run pull:feeds</code> to create <code>public/ingestion.json</code>.
+      </p>
+    );
+  }
+
+  const rows = sourceRows(report);
+  const broken = rows.filter((r) => isBroken(r.status));
+  const summary: [string, React.ReactNode][] = [
+    ["Last run", formatDateTime(report.finishedAt ?? report.pulledAtIso) || "Unknown"],
+    ["Duration", formatDuration(report.durationMs)],
+    ["Items kept", report.counts?.kept ?? "—"],
+    ...(skippedItems > 0
+      ? [["Skipped on load", <span style={{ color: "#c0392b" }}>{skippedItems} invalid item{skippedItems === 1 ? "" : "s"} in feeds.json</span>] as [string, React.ReactNode]]
+      : []),
+    ["Closed", report.counts?.closed == null ? "—" : `${report.counts.closed} this run, ${report.counts.expired ?? 0} archived`],
+    ["Requests", report.requests ? `${report.requests.requests ?? 0} (${report.requests.retries ?? 0} retried, ${report.requests.failures ?? 0} failed)` : "—"],
+    ["HTTP cache", report.httpCache ? `${report.httpCache.notModified ?? 0} not modified, ${report.httpCache.skipped ?? 0} skipped` : "—"],
+  ];
+
+  return (
+    <div>
+      <h2 style={{ fontSize: "1.4rem", fontWeight: 500, color: "#0f0f0f" }}>Source health</h2>
+      <p style={{ marginTop: "0.5rem", fontSize: "0.85rem", color: broken.length ? "#c0392b" : "#888" }}>
+        {broken.length
+          ? `${broken.length} source${broken.length === 1 ? "" : "s"} need${broken.length === 1 ? "s" : ""} attention.`
+          : "All sources look healthy."}
+      </p>
+
+      <dl style={{ marginTop: "1.5rem", display: "grid", gridTemplateColumns: "max-content 1fr", gap: "0.5rem 1.5rem", fontSize: "0.85rem" }}>
+        {summary.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt style={{ color: "#888" }}>{label}</dt>
+            <dd style={{ margin: 0, color: "#0f0f0f" }}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      <div style={{ marginTop: "2rem", borderTop: "1px solid #e8e6e0" }}>
+        {rows.map((r) => (
+          <div key={r.key} style={{ padding: "1rem 0", borderBottom: "1px solid #e8e6e0" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: "0.6rem", flexWrap: "wrap" }}>
+              <StatusBadge status={r.status} />
+              <span title={r.key} style={{ fontSize: "0.95rem", fontWeight: 500, color: "#0f0f0f" }}>{r.label}</span>
+              <span style={{ fontSize: "0.75rem", color: "#888" }}>{r.kind === "rss" ? "RSS" : "Site"}</span>
+              {r.health.origin === "user" && <span style={{ fontSize: "0.68rem", color: "#2563eb" }}>your source</span>}
+              <span style={{ marginLeft: "auto" }}><RunStrip runs={r.runs} /></span>
+            </div>
+            <div style={{ marginTop: "0.4rem", display: "flex", gap: "1rem", flexWrap: "wrap", fontSize: "0.75rem", color: "#888" }}>
+              <span>{r.health.items} item{r.health.items === 1 ? "" : "s"}</span>
+              {r.health.skipped ? <span>{r.health.skipped} unchanged</span> : null}
+              {r.kind === "site" && <span>{r.health.indexed ?? 0} indexed</span>}
+              <span>HTTP {r.health.httpStatus ?? "—"}</span>
+              <span>{formatDuration(r.health.durationMs)}</span>
+              {(r.health.silentRuns ?? 0) > 0 && <span>nothing for {r.health.silentRuns} run{r.health.silentRuns === 1 ? "" : "s"}</span>}
+              {r.health.lastOkAt !== undefined && <span>last items {formatDateTime(r.health.lastOkAt) || "never"}</span>}
+            </div>
+            {(r.health.errors ?? []).length > 0 && (
+              <ul style={{ marginTop: "0.4rem", paddingLeft: "1rem", fontSize: "0.75rem", color: "#c0392b" }}>
+                {r.health.errors!.map((e) => <li key={e} style={{ wordBreak: "break-all" }}>{e}</li>)}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
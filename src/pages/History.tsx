@@ -1,38 +1,61 @@
 // src/pages/History.tsx
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import type { Competition } from "../types";
-import { Download, Upload, Trash2 } from "lucide-react";
+import { CalendarDays, Download, Upload, Trash2 } from "lucide-react";
 import {
-  readArchive,
-  exportArchive,
-  importArchive,
+  archiveStatus,
+  DELIVERY_LABELS,
+  entryStatus,
+  sortArchive,
   setNotes,
   setOutcome,
+  setWinDetails,
   remove,
   type ArchiveItem,
+  type ArchiveStatus,
+  type DeliveryStatus,
 } from "../lib/archive";
+import { exportUserStateJson, importUserStateJson, useUserState } from "../lib/userState";
+import { matchesQuery, parseQuery } from "../lib/query";
+import { toICalendar, type CalendarMode } from "../lib/ical";
 
-type Tab = "all" | "active" | "expired" | "entered" | "saved" | "won";
+type Tab = "all" | ArchiveStatus | "entered" | "saved" | "won" | "lost";
+
+const STATUS_CHIPS: Record<ArchiveStatus, [string, string]> = {
+  active: ["Active", "bg-green-100 text-green-800"],
+  closing: ["Closing soon", "bg-orange-100 text-orange-800"],
+  closed: ["Closed", "bg-gray-200 text-gray-700"],
+  drawn: ["Drawn", "bg-blue-100 text-blue-800"],
+};
+
+function formatDate(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+}
 
 export default function HistoryPage({ currentFeed }: { currentFeed?: Competition[] }) {
   const [query, setQuery] = useState("");
   const [tab, setTab] = useState<Tab>("all");
-  const [items, setItems] = useState<ArchiveItem[]>(() => readArchive());
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>("auto");
+  const state = useUserState();
+  const items = useMemo(() => sortArchive(state.items), [state.items]);
   const fileRef = useRef<HTMLInputElement | null>(null);
 
-  // simple poll to keep in sync if other pages modify archive
-  useEffect(() => {
-    const id = setInterval(() => setItems(readArchive()), 1000);
-    return () => clearInterval(id);
-  }, []);
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
 
-  const q = query.toLowerCase();
+  // Until the feed loads we can't say an item has dropped out of it.
+  const live = useMemo(() => (currentFeed?.length ? new Set(currentFeed.map((c) => c.id)) : null), [currentFeed]);
+  const statuses = useMemo(
+    () => new Map(items.map((i) => [i.id, archiveStatus(i, live ? live.has(i.id) : undefined)])),
+    [items, live]
+  );
 
   const filtered = useMemo(() => {
     let list = items;
 
-    if (q) {
-      list = list.filter((i) => `${i.title} ${i.source ?? ""}`.toLowerCase().includes(q));
+    if (parsedQuery.terms.length) {
+      list = list.filter((i) => matchesQuery(parsedQuery, i));
     }
 
     if (tab !== "all") {
@@ -40,31 +63,45 @@ export default function HistoryPage({ currentFeed }: { currentFeed?: Competition
         if (tab === "saved") return !!i.saved;
         if (tab === "entered") return !!i.entered;
         if (tab === "won") return i.outcome === "won";
-        if (tab === "active") return !!i.createdAt;
-        if (tab === "expired") return !i.createdAt;
-        return true;
+        if (tab === "lost") return i.outcome === "lost";
+        return statuses.get(i.id) === tab;
       });
     }
     return list;
-  }, [items, q, tab]);
+  }, [items, parsedQuery, tab, statuses]);
 
-  function onExport() {
-    const blob = exportArchive();
+  function download(text: string, type: string, filename: string) {
+    const blob = new Blob([text], { type });
     const a = document.createElement("a");
     a.href = URL.createObjectURL(blob);
-    a.download = `parlay-history-${new Date().toISOString().slice(0, 10)}.json`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     URL.revokeObjectURL(a.href);
     a.remove();
   }
 
+  function onExport() {
+    download(exportUserStateJson(), "application/json", `parlay-backup-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  // Saved and entered competitions with a known deadline.
+  function onExportCalendar() {
+    const events = items
+      .filter((i) => (i.saved || i.entered) && i.deadline)
+      .map((i) => ({ id: i.id, title: i.title || i.id, deadline: i.deadline!, link: i.link, source: i.source, prize: i.prize, notes: i.notes }));
+    if (!events.length) {
+      alert("No saved or entered competitions with a closing date yet.");
+      return;
+    }
+    download(toICalendar(events, { name: "Parlay — my deadlines", mode: calendarMode }), "text/calendar", "parlay-deadlines.ics");
+  }
+
   async function onImportFile(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      await importArchive(file);
-      setItems(readArchive());
+      importUserStateJson(await file.text());
       alert("Import complete.");
     } catch {
       alert("Couldn’t import that file.");
@@ -96,6 +133,26 @@ export default function HistoryPage({ currentFeed }: { currentFeed?: Competition
             <Download className="h-4 w-4" />
             Export JSON
           </button>
+          <div className="inline-flex items-center rounded-lg border border-gray-300 bg-white text-sm">
+            <button
+              onClick={onExportCalendar}
+              className="inline-flex items-center gap-2 rounded-l-lg px-3 py-2 hover:bg-gray-100"
+              title="Deadlines of saved and entered competitions as an .ics file"
+            >
+              <CalendarDays className="h-4 w-4" />
+              Calendar
+            </button>
+            <select
+              aria-label="Calendar event style"
+              className="rounded-r-lg border-l border-gray-300 bg-white px-2 py-2 outline-none"
+              value={calendarMode}
+              onChange={(e) => setCalendarMode(e.target.value as CalendarMode)}
+            >
+              <option value="auto">Auto</option>
+              <option value="all-day">All-day</option>
+              <option value="timed">At closing time</option>
+            </select>
+          </div>
           <button
             onClick={() => fileRef.current?.click()}
             className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm hover:bg-gray-100"
@@ -115,7 +172,17 @@ export default function HistoryPage({ currentFeed }: { currentFeed?: Competition
             placeholder="Search history…"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
+            aria-invalid={parsedQuery.errors.length > 0}
           />
+          {parsedQuery.errors.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs text-red-600">
+              {parsedQuery.errors.map((err) => (
+                <li key={`${err.start}:${err.message}`}>
+                  <code>{query.slice(err.start, err.end)}</code> — {err.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
@@ -123,10 +190,13 @@ export default function HistoryPage({ currentFeed }: { currentFeed?: Competition
             [
               ["all", "All"],
               ["active", "Active"],
-              ["expired", "Expired"],
+              ["closing", "Closing soon"],
+              ["closed", "Closed"],
+              ["drawn", "Drawn"],
               ["entered", "Entered"],
               ["saved", "Saved"],
               ["won", "Won"],
+              ["lost", "Lost"],
             ] as [Tab, string][]
           ).map(([value, label]) => (
             <button
@@ -145,17 +215,18 @@ export default function HistoryPage({ currentFeed }: { currentFeed?: Competition
         {filtered.length === 0 ? (
           <div className="ph-card text-center text-gray-500">No items yet.</div>
         ) : (
-          filtered.map((it) => <HistoryRow key={it.id} item={it} />)
+          filtered.map((it) => <HistoryRow key={it.id} item={it} status={statuses.get(it.id) ?? "active"} />)
         )}
       </div>
     </div>
   );
 }
 
-function HistoryRow({ item }: { item: ArchiveItem }) {
+function HistoryRow({ item, status }: { item: ArchiveItem; status: ArchiveStatus }) {
   const [editing, setEditing] = useState(false);
   const [notes, setNotesLocal] = useState(item.notes ?? "");
   const won = item.outcome === "won";
+  const decided = won || item.outcome === "lost";
 
   function saveNotes() {
     setNotes(item.id, notes.trim());
@@ -164,28 +235,47 @@ function HistoryRow({ item }: { item: ArchiveItem }) {
   function markWon() {
     setOutcome(item.id, "won");
   }
+  function markLost() {
+    setOutcome(item.id, "lost");
+  }
+  function clearOutcome() {
+    setOutcome(item.id, "unknown");
+  }
   function doDelete() {
     remove(item.id);
   }
 
   return (
     <article className="ph-card">
-      {/* header row: left title/source; right actions (Delete → Add note → Mark as won) */}
+      {/* header row: left title/source; right actions (Delete → Add note → Mark as lost/won, or Undo result) */}
       <div className="flex items-start justify-between gap-4">
         <div className="min-w-0 flex-1">
-          <div className="font-medium">{item.title}</div>
+          <div className="font-medium">{item.title || item.id}</div>
           <div className="mt-1 text-sm text-gray-600">{item.source ?? ""}</div>
+          {(item.deadline || item.closedAt || item.prize || item.link) && (
+            <div className="mt-1 flex flex-wrap items-center gap-x-3 text-sm text-gray-600">
+              {item.prize && <span>{item.prize}</span>}
+              {status === "closed" || status === "drawn" ? (
+                (item.closedAt || item.deadline) && <span>Closed {formatDate(item.closedAt || item.deadline)}</span>
+              ) : (
+                item.deadline && <span>Closes {formatDate(item.deadline)}</span>
+              )}
+              {item.link && (
+                <a href={item.link} target="_blank" rel="noreferrer" className="underline hover:text-gray-900">
+                  View listing
+                </a>
+              )}
+            </div>
+          )}
 
           {/* chips row */}
           <div className="mt-2 flex flex-wrap items-center gap-2">
-            {item.entered && <Chip>Entered</Chip>}
+            {item.entered && <Chip>{entryStatus(item).count > 1 ? `Entered ×${entryStatus(item).count}` : "Entered"}</Chip>}
             {item.saved && <Chip>Saved</Chip>}
-            {item.createdAt ? (
-              <Chip className="bg-green-100 text-green-800">Active</Chip>
-            ) : (
-              <Chip className="bg-gray-200 text-gray-700">Expired</Chip>
-            )}
+            <Chip className={STATUS_CHIPS[status][1]}>{STATUS_CHIPS[status][0]}</Chip>
             {won && <Chip className="bg-yellow-100 text-yellow-800">Won 🎉</Chip>}
+            {item.outcome === "lost" && <Chip className="bg-gray-100 text-gray-600">Lost</Chip>}
+            {won && item.win?.delivery && <Chip>{DELIVERY_LABELS[item.win.delivery]}</Chip>}
           </div>
         </div>
 
@@ -208,14 +298,25 @@ function HistoryRow({ item }: { item: ArchiveItem }) {
             {notes ? "Edit note" : "Add note"}
           </button>
 
-          {!won && (
-            <button className="btn btn-primary" onClick={markWon} title="Mark as won">
-              Mark as won
+          {decided ? (
+            <button className="btn btn-ghost" onClick={clearOutcome} title="Forget the result">
+              Undo result
             </button>
+          ) : (
+            <>
+              <button className="btn btn-muted" onClick={markLost} title="Drawn and you didn’t win">
+                Mark as lost
+              </button>
+              <button className="btn btn-primary" onClick={markWon} title="Mark as won">
+                Mark as won
+              </button>
+            </>
           )}
         </div>
       </div>
 
+      {won && <WinEditor item={item} />}
+
       {/* notes editor (appears below header when editing) */}
       <div className="mt-3">
         {!editing ? (
@@ -250,6 +351,64 @@ function HistoryRow({ item }: { item: ArchiveItem }) {
   );
 }
 
+// Saved as you go; the Stats page adds up `value` and lists unclaimed prizes.
+function WinEditor({ item }: { item: ArchiveItem }) {
+  const win = item.win ?? {};
+  const [received, setReceived] = useState(win.prizeReceived ?? "");
+  const [value, setValue] = useState(win.value != null ? String(win.value) : "");
+  const field = "rounded-lg border border-gray-200 bg-gray-50 px-2 py-1 text-sm outline-none focus:ring-2";
+
+  return (
+    <div className="mt-3 grid grid-cols-1 gap-2 rounded-lg bg-yellow-50 p-3 text-sm sm:grid-cols-4">
+      <label className="flex flex-col gap-1 sm:col-span-2">
+        <span className="text-xs text-gray-600">Prize received</span>
+        <input
+          className={field}
+          placeholder={item.prize || "What arrived"}
+          value={received}
+          onChange={(e) => setReceived(e.target.value)}
+          onBlur={() => setWinDetails(item.id, { prizeReceived: received.trim() })}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-gray-600">Value (NZD)</span>
+        <input
+          className={field}
+          type="number"
+          min={0}
+          placeholder={item.prizeValue != null ? String(item.prizeValue) : ""}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={() => setWinDetails(item.id, { value: value.trim() ? Number(value) : undefined })}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-gray-600">Delivery</span>
+        <select
+          className={field}
+          value={win.delivery ?? "to-claim"}
+          onChange={(e) => setWinDetails(item.id, { delivery: e.target.value as DeliveryStatus })}
+        >
+          {(Object.keys(DELIVERY_LABELS) as DeliveryStatus[]).map((d) => (
+            <option key={d} value={d}>
+              {DELIVERY_LABELS[d]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-gray-600">Claim by</span>
+        <input
+          className={field}
+          type="date"
+          value={win.claimDeadline ?? ""}
+          onChange={(e) => setWinDetails(item.id, { claimDeadline: e.target.value })}
+        />
+      </label>
+    </div>
+  );
+}
+
 function Chip({ children, className = "" }: { children: React.ReactNode; className?: string }) {
   return (
     <span
@@ -0,0 +1,143 @@
+// src/pages/Stats.tsx
+import React, { useMemo } from "react";
+import { useUserState } from "../lib/userState";
+import { DELIVERY_LABELS } from "../lib/archive";
+import { outcomeStats, prizeWon, type RateRow } from "../lib/stats";
+
+const money = new Intl.NumberFormat("en-NZ", { style: "currency", currency: "NZD", maximumFractionDigits: 0 });
+
+function formatDate(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Intl.DateTimeFormat("en-NZ", { day: "numeric", month: "short" }).format(d);
+}
+
+function percent(rate: number | null) {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+const sectionTitle: React.CSSProperties = { marginTop: "2.5rem", fontSize: "1rem", fontWeight: 500, color: "#0f0f0f" };
+
+// Entries per week as bars, oldest on the left.
+function WeekBars({ weeks }: { weeks: { startIso: string; entries: number }[] }) {
+  const max = Math.max(1, ...weeks.map((w) => w.entries));
+  return (
+    <div style={{ marginTop: "1rem", display: "flex", alignItems: "flex-end", gap: 6, height: 120 }}>
+      {weeks.map((w) => (
+        <div key={w.startIso} style={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "center", gap: 4, height: "100%", justifyContent: "flex-end" }}>
+          <span style={{ fontSize: "0.68rem", color: "#888" }}>{w.entries || ""}</span>
+          <div
+            title={`Week of ${formatDate(w.startIso)}: ${w.entries} entr${w.entries === 1 ? "y" : "ies"}`}
+            style={{ width: "100%", height: `${(w.entries / max) * 80}%`, minHeight: 2, borderRadius: 2, background: w.entries ? "#0f0f0f" : "#e8e6e0" }}
+          />
+          <span style={{ fontSize: "0.62rem", color: "#888", whiteSpace: "nowrap" }}>{formatDate(w.startIso)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RateTable({ rows, label }: { rows: RateRow[]; label: string }) {
+  const cell: React.CSSProperties = { padding: "0.5rem 0", borderBottom: "1px solid #e8e6e0", textAlign: "right" };
+  return (
+    <table style={{ marginTop: "1rem", width: "100%", borderCollapse: "collapse", fontSize: "0.85rem", color: "#0f0f0f" }}>
+      <thead>
+        <tr style={{ color: "#888", fontSize: "0.75rem" }}>
+          <th style={{ ...cell, textAlign: "left", fontWeight: 400 }}>{label}</th>
+          <th style={{ ...cell, fontWeight: 400 }}>Entered</th>
+          <th style={{ ...cell, fontWeight: 400 }}>Won</th>
+          <th style={{ ...cell, fontWeight: 400 }} title="Wins out of competitions with a known result">Win rate</th>
+          <th style={{ ...cell, fontWeight: 400 }}>Value won</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.key}>
+            <td style={{ ...cell, textAlign: "left", wordBreak: "break-all" }}>{r.key}</td>
+            <td style={cell}>{r.entered}</td>
+            <td style={cell}>{r.won}</td>
+            <td style={cell} title={`${r.won} of ${r.decided} drawn`}>{percent(r.rate)}</td>
+            <td style={cell}>{r.valueWon ? money.format(r.valueWon) : "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function StatsPage() {
+  const state = useUserState();
+  const stats = useMemo(() => outcomeStats(Object.values(state.items)), [state.items]);
+
+  if (!stats.entered) {
+    return (
+      <p style={{ padding: "2rem 0", color: "#888", fontSize: "0.9rem" }}>
+        No entries yet. Mark competitions as entered, then won or lost in History, to see how your sources pay off.
+      </p>
+    );
+  }
+
+  const { streaks } = stats;
+  const summary: [string, React.ReactNode][] = [
+    ["Entered", `${stats.entered} competition${stats.entered === 1 ? "" : "s"} (${stats.submissions} entries)`],
+    ["Results", `${stats.won} won, ${stats.lost} lost, ${stats.entered - stats.won - stats.lost} waiting`],
+    ["Win rate", percent(stats.winRate)],
+    ["Prize value won", `${money.format(stats.valueWon)}${stats.unvaluedWins ? ` (+${stats.unvaluedWins} without a value)` : ""}`],
+    ["Weekly streak", `${streaks.currentWeeks} week${streaks.currentWeeks === 1 ? "" : "s"} (longest ${streaks.longestWeeks})`],
+    [
+      "Results in a row",
+      streaks.current ? `${streaks.current.count} ${streaks.current.outcome} (most wins in a row ${streaks.longestWins})` : "—",
+    ],
+    [
+      "Entry to draw",
+      stats.daysToDraw.median === null ? "—" : `${Math.round(stats.daysToDraw.median)} days median (${stats.daysToDraw.samples} drawn)`,
+    ],
+  ];
+
+  return (
+    <div>
+      <h2 style={{ fontSize: "1.4rem", fontWeight: 500, color: "#0f0f0f" }}>Your stats</h2>
+      <p style={{ marginTop: "0.5rem", fontSize: "0.85rem", color: "#888" }}>
+        Built from your history. Win rates only count competitions marked won or lost.
+      </p>
+
+      <dl style={{ marginTop: "1.5rem", display: "grid", gridTemplateColumns: "max-content 1fr", gap: "0.5rem 1.5rem", fontSize: "0.85rem" }}>
+        {summary.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt style={{ color: "#888" }}>{label}</dt>
+            <dd style={{ margin: 0, color: "#0f0f0f" }}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      <h3 style={sectionTitle}>Entries per week</h3>
+      <WeekBars weeks={stats.weeks} />
+
+      {stats.toClaim.length > 0 && (
+        <>
+          <h3 style={sectionTitle}>Prizes to chase up</h3>
+          <div style={{ marginTop: "0.5rem", borderTop: "1px solid #e8e6e0" }}>
+            {stats.toClaim.map((i) => {
+              const value = prizeWon(i);
+              return (
+                <div key={i.id} style={{ padding: "0.75rem 0", borderBottom: "1px solid #e8e6e0", display: "flex", gap: "1rem", flexWrap: "wrap", fontSize: "0.85rem" }}>
+                  <span style={{ color: "#0f0f0f", fontWeight: 500 }}>{i.title || i.id}</span>
+                  <span style={{ color: "#888" }}>{DELIVERY_LABELS[i.win?.delivery ?? "to-claim"]}</span>
+                  {i.win?.claimDeadline && <span style={{ color: "#c0392b" }}>claim by {formatDate(i.win.claimDeadline)}</span>}
+                  {value !== null && <span style={{ marginLeft: "auto", color: "#888" }}>{money.format(value)}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <h3 style={sectionTitle}>By source</h3>
+      <RateTable rows={stats.bySource} label="Source" />
+
+      <h3 style={sectionTitle}>By category</h3>
+      <RateTable rows={stats.byCategory} label="Category" />
+    </div>
+  );
+}
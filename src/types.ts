@@ -1,2 +1,15 @@
 export type Status = 'new' | 'saved' | 'entered' | 'submitted' | 'dismissed'
-export type Competition = { id: string; title: string; source: string; link: string; prize?: string; deadline?: string; tags?: string[]; createdAt: string }
\ No newline at end of file
+export type Origin = 'repo' | 'user'
+export type RequirementMethod = 'form' | 'email' | 'social' | 'purchase' | 'receipt'
+// Scraped from the competition page by the pipeline; absent fields weren't stated.
+export type SeenOn = { source: string; link: string }
+export type EntryRequirements = { methods?: RequirementMethod[]; minAge?: number; region?: string; limit?: 'person' | 'household' | 'day' | 'week' }
+// Checked at runtime by lib/feedSchema.ts, on both sides of public/feeds.json.
+// deadlineConfidence (0–1) says how sure the pipeline's date parser was; absent
+// on older items. mergedIds are the ids of duplicates folded into this item, so
+// links and archive entries made under them still find it.
+export type Competition = { id: string; title: string; source: string; origin?: Origin; link: string; prize?: string; prizeValue?: number; description?: string; deadline?: string; deadlineConfidence?: number; tags?: string[]; requirements?: EntryRequirements; entryUrl?: string; outboundUrl?: string; alsoSeenOn?: SeenOn[]; mergedIds?: string[]; createdAt: string }
+// public/expired.json: items the pipeline has taken out of feeds.json. closedAt
+// is the deadline, or the run that dropped it when it aged out without one.
+export type ClosedReason = 'deadline' | 'age'
+export type ExpiredCompetition = Competition & { status: 'closed'; closedAt: string; closedReason: ClosedReason }
@@ -1,78 +1,87 @@
 // src/ui/App.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Competition } from "../types";
+import { Competition, ExpiredCompetition } from "../types";
 import { CompetitionCard } from "./CompetitionCard";
-import { MoreVertical, RefreshCw, Search, Trash2, Upload, Download, Rss } from "lucide-react";
+import { MoreVertical, RefreshCw, Search, Trash2, Upload, Download, Rss, Filter } from "lucide-react";
 import { SourcesModal } from "./SourcesModal";
+import { RulesModal } from "./RulesModal";
+import HistoryPage from "../pages/History";
+import CompetitionPage from "../pages/Competition";
+import HealthPage from "../pages/Health";
+import StatsPage from "../pages/Stats";
+import { archiveSyncPresence, autoSave, entryStatus, fillFromFeed, logEntry, markEntered, markSaved, setFrequency } from "../lib/archive";
+import { exportUserStateJson, importUserStateJson, retrySave, updateUserState, useUserState, useUserStateSaveError, type UserStateV4 } from "../lib/userState";
+import { feedParams, href, navigate, useLocation, type Route } from "../lib/router";
+import { isClosingWithin, toMs } from "../lib/dates";
+import { matchesQuery, parseQuery } from "../lib/query";
+import { compileRules, type RuleResult } from "../lib/rules";
+import { brokenCount, type StoredReport } from "../lib/health";
+import { parseExpired, parseFeed } from "../lib/feedSchema";
 
 // ===== Types =====
 type Flags = { saved?: boolean; submitted?: boolean };
 
-type PersistState = {
-  version: 3;
-  flags: Record<string, Flags>;
-  deleted: string[];
-  firstSeenAt: Record<string, string>;
-};
+type StatusFilter = "all" | "submitted" | "saved" | "due" | "closing";
 
-type IngestionSummary = { pulledAtIso?: string; totals?: { all?: number; bySource?: Record<string, number> } };
+type SortMode = "newest" | "closing" | "saved" | "prize";
 
-// ===== Storage / migration =====
-const STORAGE_KEY = "parlay:v3";
-const LEGACY_KEYS = ["parlay:v2", "parley:v2", "parley:v1", "comp-hunt:v1"];
+// ===== Storage =====
 const LAST_SEEN_KEY = "parlay:last_seen_v3";
+const SORT_KEY = "parlay:sort_v1";
 
-function nowIso() { return new Date().toISOString(); }
-
-function migrateFromOlder(parsed: any): PersistState {
-  const flags: Record<string, Flags> = {};
-  const deleted: string[] = Array.isArray(parsed?.deleted) ? parsed.deleted : [];
-  const firstSeenAt: Record<string, string> = {};
-  if (parsed?.flags) {
-    for (const [id, f] of Object.entries(parsed.flags as Record<string, Flags>)) {
-      flags[id] = { saved: !!f?.saved, submitted: !!f?.submitted };
-    }
-  } else if (parsed?.statuses) {
-    const oldStatuses: Record<string, string> = parsed.statuses || {};
-    for (const [id, s] of Object.entries(oldStatuses)) {
-      const status = String(s);
-      flags[id] = { saved: status === "saved", submitted: status === "submitted" || status === "entered" };
-    }
-  }
-  return { version: 3, flags, deleted, firstSeenAt };
-}
-
-function loadState(): PersistState {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (raw) {
-    try {
-      const parsed = JSON.parse(raw);
-      if (parsed?.version === 3 && parsed?.flags && parsed?.firstSeenAt && Array.isArray(parsed?.deleted)) {
-        return parsed as PersistState;
-      }
-    } catch {}
-  }
-  for (const key of LEGACY_KEYS) {
-    const legacyRaw = localStorage.getItem(key);
-    if (!legacyRaw) continue;
-    try {
-      const parsed = JSON.parse(legacyRaw);
-      const migrated = migrateFromOlder(parsed);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
-      return migrated;
-    } catch {}
-  }
-  return { version: 3, flags: {}, deleted: [], firstSeenAt: {} };
+function loadSortMode(): SortMode {
+  const v = localStorage.getItem(SORT_KEY);
+  return v === "closing" || v === "saved" || v === "prize" ? v : "newest";
 }
 
-function saveState(s: PersistState) { localStorage.setItem(STORAGE_KEY, JSON.stringify(s)); }
+function nowIso() { return new Date().toISOString(); }
 
+function flagsOf(s: UserStateV4, id: string): Flags {
+  const item = s.items[id];
+  return item ? { saved: !!item.saved, submitted: !!item.entered } : {};
+}
 
 function formatTimeNZ(iso?: string | null) {
   if (!iso) return "";
   return new Intl.DateTimeFormat("en-NZ", { hour: "2-digit", minute: "2-digit", hour12: false }).format(new Date(iso));
 }
 
+// `items` must already be in newest-first order (see stableSort); ties in the
+// other modes keep that order since Array#sort is stable.
+function sortBy(mode: SortMode, items: Competition[], archive: UserStateV4["items"], now = Date.now()) {
+  if (mode === "closing") {
+    // Upcoming deadlines soonest first, then items with no deadline, then
+    // anything already past its deadline.
+    const rank = (c: Competition) => {
+      const t = toMs(c.deadline);
+      if (t === null) return { group: 1, t: 0 };
+      return t >= now ? { group: 0, t } : { group: 2, t: -t };
+    };
+    return items.slice().sort((a, b) => {
+      const ra = rank(a), rb = rank(b);
+      return ra.group - rb.group || ra.t - rb.t;
+    });
+  }
+  if (mode === "saved") {
+    // Saved items by when they were saved (most recent first); unsaved after.
+    const savedAt = (c: Competition) => {
+      const it = archive[c.id];
+      if (!it?.saved) return null;
+      return toMs(it.savedAtIso) ?? toMs(it.archivedAtIso) ?? 0;
+    };
+    return items.slice().sort((a, b) => {
+      const sa = savedAt(a), sb = savedAt(b);
+      if (sa === null || sb === null) return (sa === null ? 1 : 0) - (sb === null ? 1 : 0);
+      return sb - sa;
+    });
+  }
+  if (mode === "prize") {
+    // Biggest prize first; items without a known value keep newest order after.
+    return items.slice().sort((a, b) => (b.prizeValue ?? -1) - (a.prizeValue ?? -1));
+  }
+  return items;
+}
+
 function stableSort(items: Competition[], firstSeenAt: Record<string, string>) {
   const getT = (iso?: string | null) => {
     if (!iso) return 0;
@@ -98,8 +107,8 @@ const S = {
 };
 
 export default function App() {
-  const [persist, setPersist] = useState<PersistState>(() => loadState());
-  useEffect(() => saveState(persist), [persist]);
+  const persist = useUserState();
+  const saveError = useUserStateSaveError();
 
   const [lastSeenMs, setLastSeenMs] = useState<number>(() => Number(localStorage.getItem(LAST_SEEN_KEY) || 0));
   useEffect(() => {
@@ -111,17 +120,40 @@ export default function App() {
   }, []);
 
   const [feedItems, setFeedItems] = useState<Competition[]>([]);
-  const [ingestion, setIngestion] = useState<IngestionSummary | null>(null);
+  const [expiredItems, setExpiredItems] = useState<ExpiredCompetition[]>([]);
+  // feeds.json items that failed the schema on load; shown on the Health page.
+  const [skippedItems, setSkippedItems] = useState(0);
+  const [ingestion, setIngestion] = useState<StoredReport | null>(null);
   const [feedError, setFeedError] = useState<string | null>(null);
   const [isReloading, setIsReloading] = useState(false);
   const [localUpdated, setLocalUpdated] = useState<Date | null>(null);
 
-  const [query, setQuery] = useState("");
-  const [sourceFilter, setSourceFilter] = useState<string>("__all__");
-  const [statusFilter, setStatusFilter] = useState<"all" | "submitted" | "saved">("all");
+  // Feed filters live in the URL so filtered views can be bookmarked/shared.
+  const { route, params } = useLocation();
+  const query = params.get("q") || "";
+  const sourceFilter = params.get("source") || "__all__";
+  const categoryFilter = params.get("category") || "";
+  const statusParam = params.get("status");
+  const statusFilter: StatusFilter =
+    statusParam === "saved" || statusParam === "submitted" || statusParam === "due" || statusParam === "closing" ? statusParam : "all";
+
+  function setFilters(next: { q?: string; source?: string; status?: StatusFilter; category?: string }, replace = false) {
+    const merged = { q: query, source: sourceFilter, status: statusFilter, category: categoryFilter, ...next };
+    navigate(
+      href({ name: "feed" }, {
+        q: merged.q,
+        source: merged.source === "__all__" ? undefined : merged.source,
+        status: merged.status === "all" ? undefined : merged.status,
+        category: merged.category,
+      }),
+      { replace }
+    );
+  }
+  const setQuery = (q: string) => setFilters({ q }, true);
+  // Keeps the current filters when opening or closing a modal.
+  const withFilters = (to: Route) => href(to, feedParams(params));
 
   const [menuOpen, setMenuOpen] = useState(false);
-  const [sourcesOpen, setSourcesOpen] = useState(false);
   const kebabRef = useRef<HTMLDivElement | null>(null);
   const fileRef = useRef<HTMLInputElement | null>(null);
 
@@ -152,8 +184,17 @@ export default function App() {
         : [`${REMOTE_BASE}/feeds.json?ts=${ts}`, `/feeds.json?ts=${ts}`];
       const feedsRes = await tryFetch(feedsUrls);
       if (!feedsRes) throw new Error("No feeds.json available");
-      setFeedItems((await feedsRes.json()) as Competition[]);
+      // Items that don't match the Competition type are skipped, not fatal.
+      const { items, problems } = parseFeed(await feedsRes.json());
+      setSkippedItems(problems.length);
+      setFeedItems(items);
       setLocalUpdated(new Date());
+      // Closed items only label History; a missing or bad expired.json isn't an error.
+      const expiredUrls = preferLocal
+        ? [`/expired.json?ts=${ts}`, `${REMOTE_BASE}/expired.json?ts=${ts}`]
+        : [`${REMOTE_BASE}/expired.json?ts=${ts}`, `/expired.json?ts=${ts}`];
+      const expiredRes = await tryFetch(expiredUrls);
+      if (expiredRes) { try { setExpiredItems(parseExpired(await expiredRes.json()).items); } catch { setExpiredItems([]); } }
       const ingestionUrls = preferLocal
         ? [`/ingestion.json?ts=${ts}`, `${REMOTE_BASE}/ingestion.json?ts=${ts}`]
         : [`${REMOTE_BASE}/ingestion.json?ts=${ts}`, `/ingestion.json?ts=${ts}`];
@@ -169,9 +210,17 @@ export default function App() {
 
   useEffect(() => { loadFeeds(false); }, []);
 
+  // Also re-runs when stored items change (first load, newly saved items); it
+  // writes nothing once they're in sync.
   useEffect(() => {
     if (!feedItems.length) return;
-    setPersist((p) => {
+    archiveSyncPresence(feedItems, expiredItems);
+  }, [feedItems, expiredItems, persist.items]);
+
+  useEffect(() => {
+    if (!feedItems.length) return;
+    fillFromFeed(feedItems);
+    updateUserState((p) => {
       const next = { ...p, firstSeenAt: { ...p.firstSeenAt } };
       let changed = false;
       for (const item of feedItems) {
@@ -188,21 +237,44 @@ export default function App() {
     });
   }, [feedItems]);
 
-  const q = (query || "").toLowerCase();
-  const sortedItems = useMemo(() => stableSort(feedItems, persist.firstSeenAt), [feedItems, persist.firstSeenAt]);
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+  const [sortMode, setSortMode] = useState<SortMode>(() => loadSortMode());
+  useEffect(() => localStorage.setItem(SORT_KEY, sortMode), [sortMode]);
+
+  // Rules run once per feed load / rules edit; "tag" rules add to item.tags.
+  const ruleResults = useMemo(() => {
+    const run = compileRules(persist.rules);
+    return new Map<string, RuleResult>(feedItems.map((c) => [c.id, run(c)]));
+  }, [feedItems, persist.rules]);
+  const ruledItems = useMemo(() => feedItems.map((c) => {
+    const extra = ruleResults.get(c.id)?.tags ?? [];
+    return extra.length ? { ...c, tags: Array.from(new Set([...(c.tags ?? []), ...extra])) } : c;
+  }), [feedItems, ruleResults]);
+  useEffect(() => {
+    autoSave(feedItems.filter((c) => ruleResults.get(c.id)?.save));
+  }, [feedItems, ruleResults]);
+
+  const newestFirst = useMemo(() => stableSort(ruledItems, persist.firstSeenAt), [ruledItems, persist.firstSeenAt]);
+  const sortedItems = useMemo(() => sortBy(sortMode, newestFirst, persist.items), [sortMode, newestFirst, persist.items]);
 
   const filteredItems = useMemo(() => {
-    let items = sortedItems.filter((c) => !persist.deleted.includes(c.id));
-    if (q) items = items.filter((c) => `${c.title} ${c.source || ""}`.toLowerCase().includes(q));
-    if (statusFilter === "submitted") items = items.filter((c) => !!persist.flags[c.id]?.submitted);
-    if (statusFilter === "saved") items = items.filter((c) => !!persist.flags[c.id]?.saved);
+    let items = sortedItems.filter((c) => !persist.deleted.includes(c.id) && !ruleResults.get(c.id)?.hidden);
+    if (parsedQuery.terms.length) items = items.filter((c) => matchesQuery(parsedQuery, c));
+    if (statusFilter === "submitted") items = items.filter((c) => !!persist.items[c.id]?.entered);
+    if (statusFilter === "saved") items = items.filter((c) => !!persist.items[c.id]?.saved);
+    if (statusFilter === "due") items = items.filter((c) => entryStatus(persist.items[c.id]).dueAgain);
+    if (statusFilter === "closing") items = items.filter((c) => isClosingWithin(c.deadline, 7));
     return items;
-  }, [sortedItems, persist.deleted, persist.flags, q, statusFilter]);
+  }, [sortedItems, persist.deleted, persist.items, ruleResults, parsedQuery, statusFilter]);
+
+  const hiddenByRules = useMemo(() => feedItems.filter((c) => ruleResults.get(c.id)?.hidden && !persist.deleted.includes(c.id)).length, [feedItems, ruleResults, persist.deleted]);
 
   const visibleItems = useMemo(() => {
-    if (sourceFilter === "__all__") return filteredItems;
-    return filteredItems.filter((c) => (c.source || "") === sourceFilter);
-  }, [filteredItems, sourceFilter]);
+    let items = filteredItems;
+    if (sourceFilter !== "__all__") items = items.filter((c) => (c.source || "") === sourceFilter);
+    if (categoryFilter) items = items.filter((c) => (c.tags ?? []).includes(categoryFilter));
+    return items;
+  }, [filteredItems, sourceFilter, categoryFilter]);
 
   const allSources = useMemo(() => Array.from(new Set(sortedItems.map((i) => i.source || "unknown"))).sort(), [sortedItems]);
 
@@ -212,8 +284,18 @@ export default function App() {
     return m;
   }, [filteredItems]);
 
-  const submittedCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && persist.flags[c.id]?.submitted).length, [sortedItems, persist]);
-  const savedCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && persist.flags[c.id]?.saved).length, [sortedItems, persist]);
+  // Categories come from the pipeline's classifier (plus any rule tags).
+  const countByCategory = useMemo(() => {
+    const m = new Map<string, number>();
+    for (const c of filteredItems) for (const t of c.tags ?? []) m.set(t, (m.get(t) ?? 0) + 1);
+    return m;
+  }, [filteredItems]);
+  const allCategories = useMemo(() => Array.from(countByCategory.keys()).sort(), [countByCategory]);
+
+  const submittedCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && persist.items[c.id]?.entered).length, [sortedItems, persist]);
+  const savedCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && persist.items[c.id]?.saved).length, [sortedItems, persist]);
+  const closingCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && isClosingWithin(c.deadline, 7)).length, [sortedItems, persist.deleted]);
+  const dueCount = useMemo(() => sortedItems.filter((c) => !persist.deleted.includes(c.id) && entryStatus(persist.items[c.id]).dueAgain).length, [sortedItems, persist]);
 
   const newSinceCount = useMemo(() => {
     let n = 0;
@@ -226,17 +308,14 @@ export default function App() {
     return n;
   }, [feedItems, persist.firstSeenAt, lastSeenMs]);
 
-  function setFlags(id: string, mut: (old: Flags) => Flags) {
-    setPersist((p) => ({ ...p, flags: { ...p.flags, [id]: mut(p.flags[id] || {}) } }));
-  }
-  const toggleSaved = (id: string) => setFlags(id, (f) => ({ ...f, saved: !f.saved }));
-  const toggleSubmitted = (id: string) => setFlags(id, (f) => ({ ...f, submitted: !f.submitted }));
-  const permDelete = (id: string) => setPersist((p) => ({ ...p, deleted: Array.from(new Set([...(p.deleted || []), id])) }));
+  const toggleSaved = (c: Competition) => markSaved(c, !flagsOf(persist, c.id).saved);
+  const toggleSubmitted = (c: Competition) => markEntered(c, !flagsOf(persist, c.id).submitted);
+  const permDelete = (id: string) => updateUserState((p) => ({ ...p, deleted: Array.from(new Set([...(p.deleted || []), id])) }));
 
-  function restoreDeleted() { setPersist((p) => ({ ...p, deleted: [] })); setMenuOpen(false); }
+  function restoreDeleted() { updateUserState((p) => ({ ...p, deleted: [] })); setMenuOpen(false); }
 
   function exportUserData() {
-    const blob = new Blob([JSON.stringify({ schema: "parlay:user:v3", exportedAt: new Date().toISOString(), version: 3, flags: persist.flags, deleted: persist.deleted, firstSeenAt: persist.firstSeenAt }, null, 2)], { type: "application/json" });
+    const blob = new Blob([exportUserStateJson()], { type: "application/json" });
     const a = document.createElement("a");
     a.href = URL.createObjectURL(blob);
     a.download = `parlay-backup-${new Date().toISOString().slice(0, 10)}.json`;
@@ -248,17 +327,21 @@ export default function App() {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const data = JSON.parse(await file.text());
-      const ok = (data?.schema === "parlay:user:v3" || data?.version === 3) && data?.flags && data?.firstSeenAt && Array.isArray(data?.deleted);
-      if (!ok) { alert("That JSON doesn't look like a Parlay user backup."); e.target.value = ""; return; }
-      const next: PersistState = { version: 3, flags: data.flags, deleted: data.deleted || [], firstSeenAt: data.firstSeenAt || {} };
-      setPersist(next); saveState(next); alert("Import complete.");
+      const text = await file.text();
+      try { importUserStateJson(text); } catch { alert("That JSON doesn't look like a Parlay user backup."); return; }
+      alert("Import complete.");
     } catch { alert("Couldn't read that file."); }
     finally { e.target.value = ""; }
   }
 
+  const routeItem =
+    route.name === "competition"
+      ? feedItems.find((c) => c.id === route.id) ?? feedItems.find((c) => c.mergedIds?.includes(route.id))
+      : undefined;
+
   const pulledIso = ingestion?.pulledAtIso || (localUpdated ? localUpdated.toISOString() : undefined);
   const pulledTime = pulledIso ? formatTimeNZ(pulledIso) : "";
+  const brokenSources = useMemo(() => brokenCount(ingestion), [ingestion]);
 
   // ── Pill helper ──
   const pill = (active: boolean) => ({
@@ -273,6 +356,18 @@ export default function App() {
 
   const countStyle: React.CSSProperties = { fontSize: "0.7rem", opacity: 0.55 };
 
+  const navLink = (to: Route, label: React.ReactNode) => {
+    const active = route.name === to.name || (to.name === "feed" && route.name === "competition");
+    return (
+      <a
+        href={href(to)}
+        style={{ fontSize: "0.85rem", fontWeight: 500, color: active ? S.ink : S.ink3, textDecoration: "none", borderBottom: `2px solid ${active ? S.ink : "transparent"}`, paddingBottom: 2 }}
+      >
+        {label}
+      </a>
+    );
+  };
+
   return (
     <div style={{ minHeight: "100vh", background: S.paper, fontFamily: "'DM Sans', sans-serif" }}>
 
@@ -288,6 +383,23 @@ export default function App() {
           <span style={{ fontSize: "0.75rem", color: S.ink3 }}>
             {pulledTime ? `Updated ${pulledTime}` : ""}
           </span>
+          <nav style={{ display: "flex", gap: "1rem", marginLeft: "1rem" }}>
+            {navLink({ name: "feed" }, "Feed")}
+            {navLink({ name: "history" }, "History")}
+            {navLink({ name: "stats" }, "Stats")}
+            {navLink({ name: "sources" }, "Sources")}
+            {navLink(
+              { name: "health" },
+              <>
+                Health
+                {brokenSources > 0 && (
+                  <span title={`${brokenSources} broken source(s)`} style={{ marginLeft: 4, fontSize: "0.68rem", fontWeight: 600, color: "#c0392b" }}>
+                    {brokenSources}
+                  </span>
+                )}
+              </>
+            )}
+          </nav>
         </div>
 
         <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
@@ -323,7 +435,8 @@ export default function App() {
             {menuOpen && (
               <div style={{ position: "absolute", right: 0, marginTop: 8, width: 220, borderRadius: 8, border: `1px solid ${S.rule}`, background: S.white, boxShadow: "0 4px 16px rgba(0,0,0,0.08)", padding: 4, zIndex: 20 }}>
                 {[
-                  { icon: <Rss style={{ width: 14, height: 14 }} />, label: "Manage sources", action: () => { setSourcesOpen(true); setMenuOpen(false); } },
+                  { icon: <Rss style={{ width: 14, height: 14 }} />, label: "Manage sources", action: () => { navigate(withFilters({ name: "sources" })); setMenuOpen(false); } },
+                  { icon: <Filter style={{ width: 14, height: 14 }} />, label: "Feed rules", action: () => { navigate(withFilters({ name: "rules" })); setMenuOpen(false); } },
                   { icon: <Trash2 style={{ width: 14, height: 14 }} />, label: "Restore deleted", action: restoreDeleted },
                   { icon: <Download style={{ width: 14, height: 14 }} />, label: "Export data (JSON)", action: exportUserData },
                   { icon: <Upload style={{ width: 14, height: 14 }} />, label: "Import data (JSON)", action: () => { fileRef.current?.click(); setMenuOpen(false); } },
@@ -342,33 +455,84 @@ export default function App() {
 
       <div style={{ maxWidth: 860, margin: "0 auto", padding: "2.5rem 2rem 6rem" }}>
 
+        {saveError && (
+          <div role="alert" style={{ display: "flex", alignItems: "center", gap: "1rem", marginBottom: "1.5rem", padding: "0.75rem 1rem", border: "1px solid #e8a5a0", borderRadius: 8, background: "#fdf3f2", fontSize: "0.85rem", color: "#c0392b" }}>
+            <span>Your latest changes couldn't be saved in this browser, so they'll be lost on reload. Export your data to keep a copy.</span>
+            <button onClick={retrySave} style={{ marginLeft: "auto", padding: "0.35rem 0.9rem", borderRadius: 6, border: "1px solid #e8a5a0", background: S.white, color: "#c0392b", fontSize: "0.8rem", cursor: "pointer", whiteSpace: "nowrap" }}>
+              Try again
+            </button>
+          </div>
+        )}
+
+        {route.name === "history" && <HistoryPage currentFeed={feedItems} />}
+
+        {route.name === "stats" && <StatsPage />}
+
+        {route.name === "health" && <HealthPage report={ingestion} skippedItems={skippedItems} />}
+
+        {route.name === "competition" && (
+          <CompetitionPage
+            id={route.id}
+            item={routeItem}
+            archived={persist.items[route.id]}
+            backHref={withFilters({ name: "feed" })}
+            flags={flagsOf(persist, route.id)}
+            onToggleSave={() => routeItem && toggleSaved(routeItem)}
+            onToggleSubmitted={() => routeItem && toggleSubmitted(routeItem)}
+            onLogEntry={() => routeItem && logEntry(routeItem)}
+            onDelete={() => { permDelete(route.id); navigate(withFilters({ name: "feed" })); }}
+          />
+        )}
+
+        <SourcesModal open={route.name === "sources"} onClose={() => navigate(withFilters({ name: "feed" }))} />
+        <RulesModal open={route.name === "rules"} onClose={() => navigate(withFilters({ name: "feed" }))} />
+
+        {(route.name === "feed" || route.name === "sources" || route.name === "rules") && (<>
         {/* Search */}
         <div style={{ position: "relative", marginBottom: "1.5rem" }}>
           <Search style={{ position: "absolute", left: "0.85rem", top: "50%", transform: "translateY(-50%)", width: 14, height: 14, color: "#bbb", pointerEvents: "none" }} />
           <input
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="Search competitions…"
-            style={{ width: "100%", padding: "0.7rem 1rem 0.7rem 2.5rem", border: `1px solid ${S.rule}`, borderRadius: "0.5rem", background: S.white, fontFamily: "inherit", fontSize: "0.875rem", color: S.ink, outline: "none" }}
+            placeholder='Search competitions…  e.g. source:cheapies.nz prize:>500 closes:<7d -tag:stickers "gift card"'
+            aria-invalid={parsedQuery.errors.length > 0}
+            style={{ width: "100%", padding: "0.7rem 1rem 0.7rem 2.5rem", border: `1px solid ${parsedQuery.errors.length ? "#e8a5a0" : S.rule}`, borderRadius: "0.5rem", background: S.white, fontFamily: "inherit", fontSize: "0.875rem", color: S.ink, outline: "none" }}
           />
         </div>
+        {parsedQuery.errors.length > 0 && (
+          <ul style={{ margin: "-1rem 0 1.5rem", padding: 0, listStyle: "none", fontSize: "0.75rem", color: "#c0392b" }}>
+            {parsedQuery.errors.map((err) => (
+              <li key={`${err.start}:${err.message}`}>
+                <code>{query.slice(err.start, err.end)}</code> — {err.message}
+              </li>
+            ))}
+          </ul>
+        )}
 
         {/* Filter pills */}
           <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginBottom: "2rem" }}>
-          <button onClick={() => { setStatusFilter("all"); setSourceFilter("__all__"); }} style={pill(statusFilter === "all" && sourceFilter === "__all__")}>
+          <button onClick={() => setFilters({ status: "all", source: "__all__", category: "" })} style={pill(statusFilter === "all" && sourceFilter === "__all__" && !categoryFilter)}>
             All <span style={countStyle}>{filteredItems.length}</span>
           </button>
-          <button onClick={() => setStatusFilter("saved")} style={pill(statusFilter === "saved")}>
+          <button onClick={() => setFilters({ status: "saved" })} style={pill(statusFilter === "saved")}>
             Saved <span style={countStyle}>{savedCount}</span>
           </button>
-          <button onClick={() => setStatusFilter("submitted")} style={pill(statusFilter === "submitted")}>
+          <button onClick={() => setFilters({ status: "submitted" })} style={pill(statusFilter === "submitted")}>
             Submitted <span style={countStyle}>{submittedCount}</span>
           </button>
+          <button onClick={() => setFilters({ status: "closing" })} style={pill(statusFilter === "closing")}>
+            Closing this week <span style={countStyle}>{closingCount}</span>
+          </button>
+          {dueCount > 0 && (
+            <button onClick={() => setFilters({ status: "due" })} style={pill(statusFilter === "due")}>
+              Enter again <span style={countStyle}>{dueCount}</span>
+            </button>
+          )}
 
           {allSources.map((src) => (
             <button
               key={src}
-              onClick={() => { setSourceFilter(src); setStatusFilter("all"); }}
+              onClick={() => setFilters({ source: src, status: "all" })}
               style={pill(sourceFilter === src)}
             >
               {src} <span style={countStyle}>{countBySource.get(src) ?? 0}</span>
@@ -376,9 +540,41 @@ export default function App() {
           ))}
         </div>
 
+        {allCategories.length > 0 && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", margin: "-1.25rem 0 2rem" }}>
+            {allCategories.map((cat) => (
+              <button
+                key={cat}
+                onClick={() => setFilters({ category: categoryFilter === cat ? "" : cat })}
+                style={{ ...pill(categoryFilter === cat), padding: "0.3rem 0.8rem", fontSize: "0.75rem" }}
+              >
+                #{cat} <span style={countStyle}>{countByCategory.get(cat) ?? 0}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {feedError && <div style={{ fontSize: "0.85rem", color: "#c0392b", marginBottom: "1rem" }}>{feedError}</div>}
 
-        <SourcesModal open={sourcesOpen} onClose={() => setSourcesOpen(false)} />
+        <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: "0.5rem", marginBottom: "0.75rem", fontSize: "0.8rem", color: S.ink3 }}>
+          {hiddenByRules > 0 && (
+            <a href={withFilters({ name: "rules" })} style={{ marginRight: "auto", color: S.ink3 }}>
+              {hiddenByRules} hidden by rules
+            </a>
+          )}
+          <label htmlFor="sort-mode">Sort</label>
+          <select
+            id="sort-mode"
+            value={sortMode}
+            onChange={(e) => setSortMode(e.target.value as SortMode)}
+            style={{ border: `1px solid ${S.rule}`, borderRadius: 6, background: S.white, padding: "0.3rem 0.5rem", fontFamily: "inherit", fontSize: "0.8rem", color: S.ink }}
+          >
+            <option value="newest">Newest</option>
+            <option value="closing">Closing soonest</option>
+            <option value="saved">Recently saved</option>
+            <option value="prize">Biggest prize</option>
+          </select>
+        </div>
 
         {/* Feed */}
         <div style={{ borderTop: `1px solid ${S.rule}` }}>
@@ -389,15 +585,21 @@ export default function App() {
               <CompetitionCard
                 key={c.id}
                 item={c}
-                flags={persist.flags[c.id] || {}}
-                onToggleSave={() => toggleSaved(c.id)}
-                onEnter={() => window.open(c.link, "_blank")}
-                onToggleSubmitted={() => toggleSubmitted(c.id)}
+                flags={flagsOf(persist, c.id)}
+                onToggleSave={() => toggleSaved(c)}
+                onEnter={() => window.open(c.entryUrl || c.link, "_blank")}
+                onToggleSubmitted={() => toggleSubmitted(c)}
+                onLogEntry={() => logEntry(c)}
                 onDelete={() => permDelete(c.id)}
+                detailsHref={withFilters({ name: "competition", id: c.id })}
+                entry={entryStatus(persist.items[c.id])}
+                onSetFrequency={(f) => setFrequency(c, f)}
+                highlight={ruleResults.get(c.id)?.highlight}
               />
             ))
           )}
         </div>
+        </>)}
       </div>
     </div>
   );
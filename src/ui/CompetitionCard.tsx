@@ -2,8 +2,9 @@
 import React from "react";
 import { ArrowRight, Bookmark, BookmarkCheck, Check, Trash2 } from "lucide-react";
 import { EnterButton } from "./EnterButton";
-import type { Competition } from "../types";
-import { markSaved, markEntered } from "../lib/archive";
+import type { Competition, EntryRequirements, RequirementMethod } from "../types";
+import type { EntryFrequency, EntryStatus } from "../lib/archive";
+import { daysUntil, isGuessedDeadline } from "../lib/dates";
 
 const MONTHS = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"];
 
@@ -14,11 +15,31 @@ function formatDate(iso?: string | null): string {
   return `${d.getDate()} ${MONTHS[d.getMonth()]} ${d.getFullYear()}`;
 }
 
-function daysUntil(iso?: string | null): number | null {
-  if (!iso) return null;
-  const ms = new Date(iso).getTime() - Date.now();
-  if (!Number.isFinite(ms)) return null;
-  return Math.ceil(ms / (1000 * 60 * 60 * 24));
+const METHOD_LABELS: Record<RequirementMethod, string> = {
+  form: "Form",
+  email: "Email entry",
+  social: "Social",
+  purchase: "Purchase required",
+  receipt: "Receipt upload",
+};
+
+const LIMIT_LABELS: Record<NonNullable<EntryRequirements["limit"]>, string> = {
+  person: "1 entry per person",
+  household: "1 entry per household",
+  day: "1 entry per day",
+  week: "1 entry per week",
+};
+
+// Chips for entry requirements; "warn" ones are the usual reasons to skip a comp.
+function requirementChips(req?: EntryRequirements): { label: string; warn: boolean }[] {
+  if (!req) return [];
+  const methods = req.methods ?? [];
+  const chips = methods.map((m) => ({ label: METHOD_LABELS[m], warn: m === "purchase" || m === "receipt" }));
+  if (methods.length === 1 && methods[0] === "social") chips[0] = { label: "Social only", warn: true };
+  if (req.minAge) chips.push({ label: `${req.minAge}+`, warn: false });
+  if (req.region) chips.push({ label: `${req.region} only`, warn: false });
+  if (req.limit) chips.push({ label: LIMIT_LABELS[req.limit], warn: false });
+  return chips;
 }
 
 function cn(...a: (string | false | undefined)[]) {
@@ -31,31 +52,41 @@ export function CompetitionCard({
   onToggleSave,
   onEnter,
   onToggleSubmitted,
+  onLogEntry,
   onDelete,
+  detailsHref,
+  entry,
+  onSetFrequency,
+  highlight,
 }: {
   item: Competition;
   flags: { saved?: boolean; submitted?: boolean };
   onToggleSave: () => void;
   onEnter: () => void;
   onToggleSubmitted: () => void;
+  // Recurring comps that are open again; the tick still un-marks.
+  onLogEntry?: () => void;
   onDelete: () => void;
+  detailsHref?: string;
+  entry?: EntryStatus;
+  onSetFrequency?: (f: EntryFrequency) => void;
+  highlight?: boolean;
 }) {
   const isSaved = !!flags.saved;
   const isSubmitted = !!flags.submitted;
+  const dueAgain = !!entry?.dueAgain;
 
-  const handleToggleSave = () => {
-    onToggleSave();
-    try { markSaved(item, !isSaved); } catch {}
-  };
-
-  const handleToggleSubmitted = () => {
-    onToggleSubmitted();
-    try { markEntered(item, !isSubmitted); } catch {}
-  };
+  // The pipeline folds cross-posts of the same giveaway into one item.
+  const seenOn = item.alsoSeenOn ?? [];
+  const sourceCount = new Set([item.source, ...seenOn.map((s) => s.source)]).size;
 
   const days = daysUntil(item.deadline);
   const isUrgentRed = days !== null && days <= 3;
   const isUrgentAmber = days !== null && days > 3 && days <= 7;
+  // Low-confidence deadlines (no year, "midnight Sunday") get a "~" and a hint.
+  const guessed = isGuessedDeadline(item);
+  const guessTitle = guessed ? "Closing date guessed from loose wording on the listing — check the terms" : undefined;
+  const approx = guessed ? "~" : "";
 
   return (
     <article
@@ -63,8 +94,9 @@ export function CompetitionCard({
         display: "grid",
         gridTemplateColumns: "1fr auto",
         gap: "1rem",
-        padding: "1.25rem 0",
+        padding: highlight ? "1.25rem 0.75rem" : "1.25rem 0",
         borderBottom: "1px solid #e8e6e0",
+        background: highlight ? "#fffbe8" : undefined,
       }}
     >
       {/* Left */}
@@ -91,17 +123,37 @@ export function CompetitionCard({
 
         <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.5rem", marginTop: "0.45rem" }}>
           <span style={{ fontSize: "0.75rem", color: "#888" }}>{item.source}</span>
+          {sourceCount > 1 && (
+            <span
+              title={`Also on ${seenOn.map((s) => s.source).join(", ")}`}
+              style={{ fontSize: "0.68rem", color: "#888", border: "1px solid #e8e6e0", padding: "0.1rem 0.45rem", borderRadius: "0.25rem" }}
+            >
+              {sourceCount} sources
+            </span>
+          )}
+          {item.prize && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <span title={item.prizeValue ? `About NZ$${item.prizeValue.toLocaleString("en-NZ")}` : undefined} style={{ fontSize: "0.75rem", fontWeight: 500, color: "#3a3a3a" }}>
+                {item.prize}
+              </span>
+            </>
+          )}
+          {item.origin === "user" && (
+            <span title="From one of your sources" style={{ fontSize: "0.68rem", color: "#2563eb" }}>your source</span>
+          )}
 
           {isUrgentRed && days !== null && (
             <>
               <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
-              <span style={{
+              <span title={guessTitle} style={{
                 display: "inline-flex", alignItems: "center",
                 padding: "0.2rem 0.6rem", borderRadius: "0.25rem",
                 fontSize: "0.68rem", fontWeight: 600, letterSpacing: "0.04em", textTransform: "uppercase" as const,
                 background: "#fde8e8", color: "#c0392b",
+                outline: guessed ? "1px dashed currentColor" : undefined, outlineOffset: -1,
               }}>
-                {days <= 0 ? "Today" : `${days} day${days === 1 ? "" : "s"} left`}
+                {days <= 0 ? `${approx}Today` : `${approx}${days} day${days === 1 ? "" : "s"} left`}
               </span>
             </>
           )}
@@ -109,13 +161,14 @@ export function CompetitionCard({
           {isUrgentAmber && days !== null && (
             <>
               <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
-              <span style={{
+              <span title={guessTitle} style={{
                 display: "inline-flex", alignItems: "center",
                 padding: "0.2rem 0.6rem", borderRadius: "0.25rem",
                 fontSize: "0.68rem", fontWeight: 600, letterSpacing: "0.04em", textTransform: "uppercase" as const,
                 background: "#fdf3dc", color: "#b07d2a",
+                outline: guessed ? "1px dashed currentColor" : undefined, outlineOffset: -1,
               }}>
-                {days} days left
+                {approx}{days} days left
               </span>
             </>
           )}
@@ -123,7 +176,92 @@ export function CompetitionCard({
           {!isUrgentRed && !isUrgentAmber && item.deadline && (
             <>
               <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
-              <span style={{ fontSize: "0.75rem", color: "#888" }}>Due {formatDate(item.deadline)}</span>
+              <span
+                title={guessTitle}
+                style={{ fontSize: "0.75rem", color: "#888", borderBottom: guessed ? "1px dotted #bbb" : undefined, cursor: guessed ? "help" : undefined }}
+              >
+                Due {approx}{formatDate(item.deadline)}
+              </span>
+            </>
+          )}
+
+          {isSubmitted && entry && entry.count > 1 && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <span style={{ fontSize: "0.75rem", color: "#1a7a45" }}>Entered ×{entry.count}</span>
+            </>
+          )}
+
+          {dueAgain && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <button
+                onClick={onLogEntry}
+                disabled={!onLogEntry}
+                title={onLogEntry ? "Log another entry" : undefined}
+                style={{
+                  display: "inline-flex", alignItems: "center",
+                  padding: "0.2rem 0.6rem", borderRadius: "0.25rem",
+                  fontSize: "0.68rem", fontWeight: 600, letterSpacing: "0.04em", textTransform: "uppercase" as const,
+                  background: "#edfaf3", color: "#1a7a45",
+                  border: `1px solid ${onLogEntry ? "#1a7a45" : "transparent"}`,
+                  cursor: onLogEntry ? "pointer" : "default",
+                }}
+              >
+                {entry?.frequency === "weekly" ? "Enter again this week" : "Enter again today"}
+                {onLogEntry ? " · log it" : ""}
+              </button>
+            </>
+          )}
+
+          {isSubmitted && onSetFrequency && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <select
+                value={entry?.frequency ?? "once"}
+                onChange={(e) => onSetFrequency(e.target.value as EntryFrequency)}
+                title="How often you can enter"
+                style={{ fontSize: "0.75rem", color: "#888", border: "none", background: "transparent", cursor: "pointer", padding: 0 }}
+              >
+                <option value="once">One entry</option>
+                <option value="daily">Daily entry</option>
+                <option value="weekly">Weekly entry</option>
+              </select>
+            </>
+          )}
+
+          {requirementChips(item.requirements).map((c) => (
+            <span
+              key={c.label}
+              style={{
+                fontSize: "0.68rem", padding: "0.1rem 0.45rem", borderRadius: "0.25rem",
+                color: c.warn ? "#c0392b" : "#3a3a3a",
+                background: c.warn ? "#fde8e8" : "transparent",
+                border: `1px solid ${c.warn ? "#f5c6c6" : "#e8e6e0"}`,
+              }}
+            >
+              {c.label}
+            </span>
+          ))}
+
+          {(item.tags ?? []).map((t) => (
+            <span key={t} style={{ fontSize: "0.68rem", color: "#888", background: "#f0eee8", padding: "0.1rem 0.45rem", borderRadius: "0.25rem" }}>
+              {t}
+            </span>
+          ))}
+
+          {/* Enter opens the promoter's page; keep the aggregator thread reachable. */}
+          {item.entryUrl && item.entryUrl !== item.link && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <a href={item.link} target="_blank" rel="noreferrer" style={{ fontSize: "0.75rem", color: "#888" }}>Discussion</a>
+            </>
+          )}
+
+          {detailsHref && (
+            <>
+              <span style={{ width: 3, height: 3, borderRadius: "50%", background: "#bbb", display: "inline-block" }} />
+              <a href={detailsHref} style={{ fontSize: "0.75rem", color: "#888" }}>Details</a>
             </>
           )}
         </div>
@@ -138,7 +276,7 @@ export function CompetitionCard({
         <div style={{ display: "flex", alignItems: "center", gap: "0.4rem" }}>
           {/* Save */}
           <button
-            onClick={handleToggleSave}
+            onClick={onToggleSave}
             title={isSaved ? "Saved" : "Save"}
             style={{
               width: 32, height: 32, borderRadius: "0.4rem",
@@ -156,8 +294,8 @@ export function CompetitionCard({
 
           {/* Submitted */}
           <button
-            onClick={handleToggleSubmitted}
-            title={isSubmitted ? "Submitted" : "Mark as submitted"}
+            onClick={onToggleSubmitted}
+            title={isSubmitted ? "Submitted (click to un-mark)" : "Mark as submitted"}
             style={{
               width: 32, height: 32, borderRadius: "0.4rem",
               border: `1px solid ${isSubmitted ? "#b3e6cc" : "#e8e6e0"}`,
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { addRule, removeRule, toggleRule, validateMatcher, type RuleAction, type RuleMatcher } from "../lib/rules";
+import { useUserState } from "../lib/userState";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+};
+
+function cn(...a: (string | false | undefined)[]) {
+  return a.filter(Boolean).join(" ");
+}
+
+const KIND_LABELS: Record<RuleMatcher["kind"], string> = {
+  keyword: "Title has word",
+  regex: "Title matches regex",
+  source: "Source is",
+};
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  hide: "Hide",
+  save: "Save",
+  tag: "Tag",
+  highlight: "Highlight",
+};
+
+export function RulesModal({ open, onClose }: Props) {
+  const { rules = [] } = useUserState();
+  const [kind, setKind] = useState<RuleMatcher["kind"]>("keyword");
+  const [pattern, setPattern] = useState("");
+  const [action, setAction] = useState<RuleAction>("hide");
+  const [tag, setTag] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    // Close on escape
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  function add() {
+    setError(null);
+    const matcher = { kind, pattern };
+    const problem = validateMatcher(matcher);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (action === "tag" && !tag.trim()) {
+      setError("Give the tag a name.");
+      return;
+    }
+    addRule(matcher, action, tag);
+    setPattern("");
+    setTag("");
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Feed rules"
+      onMouseDown={(e) => {
+        if (!(e.target instanceof Node)) return;
+        if (dialogRef.current && !dialogRef.current.contains(e.target)) onClose();
+      }}
+    >
+      <div className="absolute inset-0 bg-black/30" />
+
+      <div
+        ref={dialogRef}
+        className="relative w-[min(720px,calc(100vw-32px))] max-h-[calc(100vh-32px)] overflow-auto rounded-2xl border border-gray-200 bg-white shadow-xl"
+      >
+        <div className="px-5 py-4 border-b flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold">Feed rules</h2>
+            <div className="mt-1 text-sm text-gray-500">
+              Applied to every item when the feed loads. Saved with your data export.
+            </div>
+          </div>
+
+          <button className="p-2 rounded-lg hover:bg-gray-100" onClick={onClose} title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-6">
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">New rule</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+              <select
+                className="px-3 py-2 rounded-lg border border-gray-300 bg-white"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as RuleMatcher["kind"])}
+              >
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                className="sm:col-span-2 px-3 py-2 rounded-lg border border-gray-300 bg-white outline-none focus:ring-2"
+                placeholder={kind === "regex" ? "puzzle|crossword" : kind === "source" ? "nowtolove.co.nz" : "puzzle"}
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+              />
+              <select
+                className="px-3 py-2 rounded-lg border border-gray-300 bg-white"
+                value={action}
+                onChange={(e) => setAction(e.target.value as RuleAction)}
+              >
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {action === "tag" && (
+                <input
+                  className="sm:col-span-2 px-3 py-2 rounded-lg border border-gray-300 bg-white outline-none focus:ring-2"
+                  placeholder="Tag name"
+                  value={tag}
+                  onChange={(e) => setTag(e.target.value)}
+                />
+              )}
+              <div className="sm:col-span-4">
+                <button
+                  className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100"
+                  onClick={add}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add rule
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">Your rules</h3>
+            {rules.length === 0 ? (
+              <div className="text-sm text-gray-500">No rules yet.</div>
+            ) : (
+              <div className="space-y-2">
+                {rules.map((r) => (
+                  <div
+                    key={r.id}
+                    className="flex items-start justify-between gap-3 rounded-xl border border-gray-200 bg-white p-3"
+                  >
+                    <label className="flex items-start gap-3 min-w-0">
+                      <input type="checkbox" checked={r.enabled} onChange={() => toggleRule(r.id)} className="mt-1" />
+                      <div className={cn("min-w-0 text-sm break-all", !r.enabled && "text-gray-400 line-through")}>
+                        <span className="text-gray-500">{KIND_LABELS[r.matcher.kind]}</span>{" "}
+                        <code>{r.matcher.pattern}</code> → {ACTION_LABELS[r.action]}
+                        {r.action === "tag" && r.tag ? ` "${r.tag}"` : ""}
+                      </div>
+                    </label>
+
+                    <button className="p-2 rounded-lg hover:bg-gray-50" onClick={() => removeRule(r.id)} title="Remove">
+                      <Trash2 className="h-4 w-4 text-gray-700" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
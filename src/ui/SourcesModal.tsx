@@ -1,7 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Clipboard, Download, Upload, X, Plus, Trash2 } from "lucide-react";
+import { Clipboard, Download, Upload, X, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
 import {
   UserSourcesV1,
+  emptyUserSources,
   loadUserSources,
   saveUserSources,
   addRssSource,
@@ -10,6 +11,10 @@ import {
   removeSite,
   toggleRss,
   toggleSite,
+  setSiteSelectors,
+  SITE_FIELD_SELECTORS,
+  type SiteFieldSelector,
+  type UserSiteSource,
   exportUserSourcesJson,
   parseUserSourcesJson,
 } from "../lib/userSources";
@@ -34,21 +39,95 @@ function downloadText(filename: string, text: string) {
   a.remove();
 }
 
+const SELECTOR_FIELDS: Record<SiteFieldSelector, { label: string; placeholder: string }> = {
+  title_selector: { label: "Title", placeholder: "h1.entry-title || h1" },
+  published_selector: { label: "Published date", placeholder: "time@datetime" },
+  deadline_selector: { label: "Closing date", placeholder: ".closes" },
+  prize_selector: { label: "Prize", placeholder: ".prize" },
+  description_selector: { label: "Description", placeholder: "meta[name=description]@content" },
+};
+
+// Detail-page selectors for one site; empty fields fall back to the defaults.
+function SiteSelectorsForm({
+  site,
+  onSave,
+  onCancel,
+}: {
+  site: UserSiteSource;
+  onSave: (selectors: Record<SiteFieldSelector, string>) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState(
+    () => Object.fromEntries(SITE_FIELD_SELECTORS.map((k) => [k, site[k] ?? ""])) as Record<SiteFieldSelector, string>
+  );
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="text-xs text-gray-500">
+        CSS selectors for the competition pages. Use <code>css@attr</code> for an attribute and <code>a || b</code> to try
+        several. Leave blank to let the crawler guess.
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {SITE_FIELD_SELECTORS.map((key) => (
+          <label key={key} className="flex flex-col gap-1 text-xs text-gray-600">
+            {SELECTOR_FIELDS[key].label}
+            <input
+              className="px-3 py-2 rounded-lg border border-gray-300 bg-white outline-none focus:ring-2 font-mono text-xs text-gray-900"
+              placeholder={SELECTOR_FIELDS[key].placeholder}
+              value={values[key]}
+              onChange={(e) => setValues((v) => ({ ...v, [key]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          className="px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 text-sm"
+          onClick={() => onSave(values)}
+        >
+          Save selectors
+        </button>
+        <button className="px-4 py-2 rounded-lg hover:bg-gray-100 text-sm" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function SourcesModal({ open, onClose }: Props) {
-  const [state, setState] = useState<UserSourcesV1>(() => loadUserSources());
+  const [state, setState] = useState<UserSourcesV1>(() => emptyUserSources());
+  // Don't write back until the stored list has loaded, or we'd clobber it.
+  const [loaded, setLoaded] = useState(false);
   const [rssUrl, setRssUrl] = useState("");
   const [siteIndex, setSiteIndex] = useState("");
   const [siteLabel, setSiteLabel] = useState("");
+  const [editingSite, setEditingSite] = useState<string | null>(null);
   const [importText, setImportText] = useState("");
   const [error, setError] = useState<string | null>(null);
 
   const dialogRef = useRef<HTMLDivElement | null>(null);
 
+  // Load only when opening: reloading on every parent render could race the
+  // async save below and revert an edit.
   useEffect(() => {
     if (!open) return;
-    setState(loadUserSources());
+    let cancelled = false;
+    setLoaded(false);
+    loadUserSources().then((s) => {
+      if (cancelled) return;
+      setState(s);
+      setLoaded(true);
+    });
     setError(null);
     setImportText("");
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
     // Close on escape
     function onKeyDown(e: KeyboardEvent) {
       if (e.key === "Escape") onClose();
@@ -58,9 +137,11 @@ export function SourcesModal({ open, onClose }: Props) {
   }, [open, onClose]);
 
   useEffect(() => {
-    if (!open) return;
-    saveUserSources(state);
-  }, [open, state]);
+    if (!open || !loaded) return;
+    saveUserSources(state).catch(() => {
+      setError("Could not save your sources in this browser. Export them to keep a copy.");
+    });
+  }, [open, loaded, state]);
 
   const counts = useMemo(
     () => ({ rss: state.rss.length, sites: state.sites.length }),
@@ -251,34 +332,53 @@ export function SourcesModal({ open, onClose }: Props) {
             ) : (
               <div className="space-y-2">
                 {state.sites.map((s) => (
-                  <div
-                    key={s.index}
-                    className="flex items-start justify-between gap-3 rounded-xl border border-gray-200 bg-white p-3"
-                  >
-                    <label className="flex items-start gap-3 min-w-0">
-                      <input
-                        type="checkbox"
-                        checked={s.enabled}
-                        onChange={() => setState((st) => toggleSite(st, s.index))}
-                        className="mt-1"
-                      />
-                      <div className="min-w-0">
-                        <div className={cn("text-sm break-all", !s.enabled && "text-gray-400 line-through")}>
-                          {s.index}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {s.source ? `Label: ${s.source} • ` : ""}Added {s.addedAt.slice(0, 10)}
+                  <div key={s.index} className="rounded-xl border border-gray-200 bg-white p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <label className="flex items-start gap-3 min-w-0">
+                        <input
+                          type="checkbox"
+                          checked={s.enabled}
+                          onChange={() => setState((st) => toggleSite(st, s.index))}
+                          className="mt-1"
+                        />
+                        <div className="min-w-0">
+                          <div className={cn("text-sm break-all", !s.enabled && "text-gray-400 line-through")}>
+                            {s.index}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {s.source ? `Label: ${s.source} • ` : ""}Added {s.addedAt.slice(0, 10)}
+                            {SITE_FIELD_SELECTORS.some((k) => s[k]) ? " • custom selectors" : ""}
+                          </div>
                         </div>
-                      </div>
-                    </label>
+                      </label>
 
-                    <button
-                      className="p-2 rounded-lg hover:bg-gray-50"
-                      onClick={() => setState((st) => removeSite(st, s.index))}
-                      title="Remove"
-                    >
-                      <Trash2 className="h-4 w-4 text-gray-700" />
-                    </button>
+                      <div className="flex shrink-0">
+                        <button
+                          className="p-2 rounded-lg hover:bg-gray-50"
+                          onClick={() => setEditingSite(editingSite === s.index ? null : s.index)}
+                          title="Edit selectors"
+                        >
+                          <SlidersHorizontal className="h-4 w-4 text-gray-700" />
+                        </button>
+                        <button
+                          className="p-2 rounded-lg hover:bg-gray-50"
+                          onClick={() => setState((st) => removeSite(st, s.index))}
+                          title="Remove"
+                        >
+                          <Trash2 className="h-4 w-4 text-gray-700" />
+                        </button>
+                      </div>
+                    </div>
+                    {editingSite === s.index && (
+                      <SiteSelectorsForm
+                        site={s}
+                        onCancel={() => setEditingSite(null)}
+                        onSave={(selectors) => {
+                          setState((st) => setSiteSelectors(st, s.index, selectors));
+                          setEditingSite(null);
+                        }}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -324,7 +424,8 @@ export function SourcesModal({ open, onClose }: Props) {
             </div>
 
             <div className="text-xs text-gray-500">
-              This does not update the repo sources yet. It only stores your own list in this browser.
+              To have these crawled, download the JSON and commit it to the repo root as{" "}
+              <code>user-sources.json</code>. The next feed pull merges it with the repo sources.
             </div>
           </section>
         </div>
@@ -34,6 +34,22 @@ export default defineConfig({
         },
         setupFiles: ['.storybook/vitest.setup.ts']
       }
+    }, {
+      // Ingestion script tests (Node, local fixtures only)
+      test: {
+        name: 'scripts',
+        environment: 'node',
+        include: ['scripts/**/*.test.{mjs,ts}']
+      }
+    }, {
+      // App library tests (Node; src/lib modules that don't touch the DOM).
+      // Local-time code (days, Monday weeks) runs in the users' time zone.
+      test: {
+        name: 'src',
+        environment: 'node',
+        env: { TZ: 'Pacific/Auckland' },
+        include: ['src/**/*.test.ts']
+      }
     }]
   }
 });
\ No newline at end of file